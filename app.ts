@@ -6,32 +6,324 @@ interface ProjectFile {
     path: string;
 }
 
+interface ProjectDetails {
+    description?: string;
+    track?: string;
+}
+
 interface Project {
+    id?: string;
     name: string;
     files: ProjectFile[];
     droppedSummary?: string[];
+    track?: string;
+}
+
+interface JudgeCriterion {
+    id: string;
+    name: string;
+    description?: string;
+    maxPoints: number;
+    weight?: number;
+}
+
+interface ModelSettings {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    systemPrompt?: string;
 }
 
-interface Judge {
+interface Judge extends ModelSettings {
     id: string;
     name: string;
     description: string;
     prompt: string;
+    criteria?: JudgeCriterion[];
+    kind?: 'ai' | 'human';
+    enabled?: boolean;
+    tracks?: string[];
 }
 
-interface JudgeResult {
+interface JudgePanel {
+    id: string;
+    name: string;
+    judges: Judge[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface JudgePanelFile {
+    format: string;
+    version: number;
+    name: string;
+    exportedAt?: string;
+    judges: Judge[];
+}
+
+interface JudgePanelsResponse {
+    success: boolean;
+    panels?: JudgePanel[];
+    panel?: JudgePanel;
+    error?: string;
+}
+
+interface HumanScore {
+    projectId: string;
     judgeId: string;
     judgeName: string;
+    score: number;
     summary: string;
+    likes: string[];
+    dislikes: string[];
+    submittedAt?: string;
+}
+
+interface HumanScoresResponse {
+    success: boolean;
+    scores?: HumanScore[];
+    saved?: number;
+    error?: string;
+}
+
+interface EventTrack {
+    id: string;
+    name: string;
+    description?: string;
+}
+
+interface EventConfig {
+    name: string;
+    theme: string;
+    rules: string;
+    judgingStart?: string;
+    judgingEnd?: string;
+    tracks: EventTrack[];
+    awards?: AwardCategory[];
+}
+
+interface AwardCategory {
+    id?: string;
+    name: string;
+    criteria: string;
+    method: 'master-judge' | 'judge-top-score';
+    judgeId?: string;
+    tracks?: string[];
+    minScore?: number;
+    requiredTechnologies?: string[];
+}
+
+interface TechnologySignature {
+    id: string;
+    name: string;
+    packages?: string[];
+    imports?: string[];
+    endpoints?: string[];
+}
+
+interface TechnologySignaturesResponse {
+    success: boolean;
+    signatures?: TechnologySignature[];
+    error?: string;
+}
+
+interface TechnologyEvidence {
+    kind: 'dependency' | 'import' | 'endpoint';
+    path: string;
+    line: number;
+    text: string;
+}
+
+interface DetectedTechnology {
+    technologyId: string;
+    name: string;
+    evidence: TechnologyEvidence[];
+    evidenceCount: number;
+}
+
+interface AwardResult {
+    awardId: string;
+    awardName: string;
+    method: AwardCategory['method'];
+    eligibleProjectIds: string[];
+    winnerProjectId?: string;
+    winnerProjectName?: string;
+    justification: string;
+    runnersUp?: string[];
+    judgeName?: string;
+    error?: string;
+}
+
+interface EventConfigResponse {
+    success: boolean;
+    event?: EventConfig;
+    error?: string;
+}
+
+interface BlendWeights {
+    ai: number;
+    human: number;
+}
+
+interface CriterionScore {
+    criterionId: string;
+    criterionName: string;
     score: number;
+    maxPoints: number;
+    justification: string;
+}
+
+interface UsageTotals {
+    calls: number;
+    cachedCalls: number;
+    unpricedCalls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+interface UsageReportRow {
+    scope: 'run' | 'master-judge' | 'project' | 'chunk-notes' | 'judge' | 'project-judge';
+    projectId?: string;
+    projectName?: string;
+    judgeId?: string;
+    judgeName?: string;
+    usage: UsageTotals;
+}
+
+interface UsageReportResponse {
+    success: boolean;
+    report?: { runId: string; currency: string; rows: UsageReportRow[] };
+    error?: string;
+}
+
+interface ContextManifestEntry {
+    path: string;
+    status: 'included' | 'elided' | 'outlined' | 'summarized' | 'dropped' | 'binary';
+    tokens: number;
+    originalTokens: number;
+    elidedLines?: number;
+}
+
+interface ContextManifest {
+    model: string;
+    contextWindow: number;
+    budgetTokens: number;
+    usedTokens: number;
+    mapTokens: number;
+    includedFiles: number;
+    elidedFiles: number;
+    outlinedFiles: number;
+    summarizedFiles?: number;
+    droppedFiles: number;
+    files: ContextManifestEntry[];
+}
+
+interface JudgeResult {
+    judgeId: string;
+    judgeName: string;
+    summary: string;
+    score: number | null;
     likes: string[];
     dislikes: string[];
+    criteriaScores?: CriterionScore[];
+    failed?: boolean;
+    error?: string;
+    usage?: UsageTotals;
+    context?: ContextManifest;
+    scoreStats?: ScoreStats;
+    normalizedScore?: number;
+    kind?: 'ai' | 'human';
+}
+
+type ScoreNormalization = 'none' | 'z-score' | 'rank';
+
+interface JudgeDistribution {
+    judgeId: string;
+    judgeName: string;
+    count: number;
+    mean: number;
+    median: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    offset: number;
+}
+
+interface ScoreStats {
+    samples: number;
+    failedSamples: number;
+    scores: number[];
+    median: number;
+    mean: number;
+    stdDev: number;
+    low: number;
+    high: number;
+}
+
+interface ScoreInterval {
+    mean: number;
+    low: number;
+    high: number;
+}
+
+interface MapReduceSettings extends ModelSettings {
+    chunkTokens?: number;
+}
+
+interface ChunkNote {
+    index: number;
+    files: string[];
+    tokens: number;
+    purpose: string;
+    qualitySignals: string[];
+    issues: string[];
+    model?: string;
+    failed?: boolean;
+    error?: string;
+}
+
+interface ProjectChunkNotes {
+    chunks: ChunkNote[];
+    usage: UsageTotals;
 }
 
 interface ProjectEvaluation {
+    projectId?: string;
     projectName: string;
     judgeResults: JudgeResult[];
     finalRank?: number;
+    rating?: number;
+    rankConfidence?: number;
+    rankSource?: 'master-judge' | 'master-judge-retry' | 'master-judge-partial' | 'fuzzy-match' | 'average-score' | 'pairwise';
+    rankReasoning?: string;
+    scoreInterval?: ScoreInterval;
+    tooCloseToCall?: boolean;
+    aiScore?: number;
+    humanScore?: number;
+    blendedScore?: number;
+    disagreement?: number;
+    aiHumanDisagree?: boolean;
+    usage?: UsageTotals;
+    chunkNotes?: ProjectChunkNotes;
+    track?: string;
+    trackRank?: number;
+    trackRankReasoning?: string;
+    technologies?: DetectedTechnology[];
+}
+
+interface RankingSettings {
+    strategy: 'master-judge' | 'pairwise';
+    rounds?: number;
+}
+
+interface PairwiseComparison {
+    round: number;
+    projectA: string;
+    projectB: string;
+    winner: 'A' | 'B' | 'tie' | null;
+    reasoning: string;
+    error?: string;
 }
 
 interface ClientFilterStats {
@@ -53,29 +345,105 @@ interface UploadResponse {
     totalSize?: number;
     warnings?: string[];
     droppedSummary?: string[];
+    projectId?: string;
+    track?: string;
+    error?: string;
+}
+
+interface JudgingRun {
+    id: string;
+    status: 'queued' | 'running' | 'completed' | 'failed';
+    projectIds: string[];
+    judges: Judge[];
+    evaluations: ProjectEvaluation[];
+    createdAt: string;
+    updatedAt: string;
+    error?: string;
+    usage?: UsageTotals;
+    masterJudgeUsage?: UsageTotals;
+    comparisons?: PairwiseComparison[];
+    rankingErrors?: string[];
+    normalization?: ScoreNormalization;
+    blend?: BlendWeights;
+    judgeDistributions?: JudgeDistribution[];
+    event?: EventConfig;
+    awards?: AwardResult[];
+}
+
+interface JudgingRunEvent {
+    id: number;
+    type: 'run-started' | 'project-started' | 'chunk-notes-completed' | 'judge-completed' | 'judge-failed' | 'project-completed' | 'master-ranking-started' | 'run-finished';
+    timestamp: string;
+    projectId?: string;
+    projectName?: string;
+    judgeId?: string;
+    judgeName?: string;
+    score?: number;
+    error?: string;
+    chunks?: number;
+    status?: JudgingRun['status'];
+    projects?: Array<{ id: string; name: string }>;
+    judges?: Array<{ id: string; name: string }>;
+}
+
+interface JudgingStatusCell {
+    state: 'pending' | 'running' | 'done' | 'failed';
+    score?: number;
+    error?: string;
+}
+
+interface JudgingStatusGrid {
+    projects: Array<{ id: string; name: string }>;
+    judges: Array<{ id: string; name: string }>;
+    cells: Record<string, JudgingStatusCell>;
+    phase: string;
+}
+
+interface ModelsResponse {
+    success: boolean;
+    defaultModel?: string;
+    notesModel?: string;
+    defaultMaxTokens?: number;
+    models?: Array<{ id: string; maxTokens: number }>;
     error?: string;
 }
 
-interface ClaudeAPIResponse {
+interface JudgingRunResponse {
     success: boolean;
-    response: string;
-    usage?: {
-        input_tokens: number;
-        output_tokens: number;
-    };
+    run?: JudgingRun;
     error?: string;
-    warning?: string;
 }
 
 class HackathonJudge {
     private projects: Project[] = [];
     private judges: Judge[] = [];
     private evaluations: ProjectEvaluation[] = [];
+    private comparisons: PairwiseComparison[] = [];
+    private judgeDistributions: JudgeDistribution[] = [];
+    private humanScores: HumanScore[] = [];
+    private event: EventConfig = { name: '', theme: '', rules: '', tracks: [] };
+    private runTracks: EventTrack[] = []; // Tracks of the event the displayed run was judged under
+    private leaderboard = ''; // Track ID of the leaderboard on display, '' for the overall ranking
+    private awards: AwardResult[] = [];
+    private technologySignatures: TechnologySignature[] = [];
     private readonly CLAUDE_API_SEED = 12345; // Fixed seed for consistency
+    private readonly ACTIVE_RUN_KEY = 'activeJudgingRunId';
+    private readonly JUDGE_PANEL_KEY = 'judgePanel';
+    private readonly JUDGE_PANEL_FORMAT = 'hackathon-judge-panel';
+    private readonly JUDGE_PANEL_VERSION = 1;
+    private panelId: string | null = null; // Saved panel the current judges were loaded from or saved as
+    private panelName = 'Default panel';
+    private editingJudgeId: string | null = null;
+    private statusGrid: JudgingStatusGrid | null = null;
 
     constructor() {
-        this.initializeDefaultJudges();
+        this.restoreJudges();
         this.renderJudges();
+        this.loadJudgePanels();
+        this.loadEventConfig();
+        this.loadTechnologySignatures();
+        this.loadModels();
+        this.resumeActiveRun();
     }
 
     private initializeDefaultJudges(): void {
@@ -91,7 +459,13 @@ class HackathonJudge {
                 - Performance considerations
                 - Use of technologies and frameworks
                 
-                Provide a detailed analysis of what you like and don't like about the technical aspects, then give an absolute score from 1-10.`
+                Provide a detailed analysis of what you like and don't like about the technical aspects, then give an absolute score from 1-10.`,
+                maxTokens: 4000, // Long-form review
+                criteria: [
+                    { id: 'architecture', name: 'Architecture', description: 'Structure, separation of concerns and design patterns', maxPoints: 15 },
+                    { id: 'code-quality', name: 'Code Quality', description: 'Readability, best practices and error handling', maxPoints: 15 },
+                    { id: 'testing', name: 'Testing', description: 'Presence and quality of automated tests', maxPoints: 10 }
+                ]
             },
             {
                 id: 'innovation',
@@ -104,7 +478,12 @@ class HackathonJudge {
                 - Creative use of technology
                 - Novel features or implementations
                 
-                Provide a detailed analysis of the innovative aspects, what's creative vs conventional, then give an absolute score from 1-10.`
+                Provide a detailed analysis of the innovative aspects, what's creative vs conventional, then give an absolute score from 1-10.`,
+                criteria: [
+                    { id: 'originality', name: 'Originality', description: 'How new the idea is compared to existing solutions', maxPoints: 15 },
+                    { id: 'problem-solving', name: 'Problem Solving', description: 'How well the approach addresses a real problem', maxPoints: 10 },
+                    { id: 'creative-tech', name: 'Creative Use of Technology', description: 'Novel features or uses of the chosen technologies', maxPoints: 5 }
+                ]
             },
             {
                 id: 'user-experience',
@@ -117,11 +496,193 @@ class HackathonJudge {
                 - Documentation quality for users
                 - Overall user experience and ease of use
                 
-                Provide a detailed analysis of the user experience aspects, both positive and negative, then give an absolute score from 1-10.`
+                Provide a detailed analysis of the user experience aspects, both positive and negative, then give an absolute score from 1-10.`,
+                maxTokens: 1500, // Quick pass
+                criteria: [
+                    { id: 'interface', name: 'Interface Design', description: 'Visual design and aesthetics', maxPoints: 10 },
+                    { id: 'usability', name: 'Usability', description: 'User flow, accessibility and ease of use', maxPoints: 15 },
+                    { id: 'documentation', name: 'User Documentation', description: 'How well users are guided to get started', maxPoints: 5 }
+                ]
             }
         ];
     }
 
+    /** Restores the judge panel from the last visit, falling back to the built-in judges. */
+    private restoreJudges(): void {
+        try {
+            const stored = localStorage.getItem(this.JUDGE_PANEL_KEY);
+            const file = stored ? JSON.parse(stored) as JudgePanelFile & { id?: string } : null;
+            if (file && this.isJudgePanelFile(file)) {
+                this.judges = file.judges;
+                this.panelName = file.name;
+                this.panelId = file.id || null;
+                return;
+            }
+        } catch (error) {
+            console.warn('⚠️ Could not restore the saved judge panel, using the default judges:', error);
+        }
+
+        this.initializeDefaultJudges();
+    }
+
+    private isJudgePanelFile(file: JudgePanelFile): boolean {
+        return file.format === this.JUDGE_PANEL_FORMAT &&
+            typeof file.version === 'number' && file.version <= this.JUDGE_PANEL_VERSION &&
+            Array.isArray(file.judges) && file.judges.length > 0;
+    }
+
+    private toJudgePanelFile(): JudgePanelFile {
+        return {
+            format: this.JUDGE_PANEL_FORMAT,
+            version: this.JUDGE_PANEL_VERSION,
+            name: this.panelName,
+            exportedAt: new Date().toISOString(),
+            judges: this.judges
+        };
+    }
+
+    private saveJudgesLocally(): void {
+        localStorage.setItem(this.JUDGE_PANEL_KEY, JSON.stringify({ ...this.toJudgePanelFile(), id: this.panelId || undefined }));
+    }
+
+    private useJudgePanel(panel: JudgePanel): void {
+        this.judges = panel.judges;
+        this.panelName = panel.name;
+        this.panelId = panel.id;
+        this.saveJudgesLocally();
+        this.renderJudges();
+    }
+
+    private async loadJudgePanels(): Promise<void> {
+        const select = document.getElementById('savedPanels') as HTMLSelectElement | null;
+        const nameInput = document.getElementById('panelName') as HTMLInputElement | null;
+        if (nameInput && !nameInput.value) nameInput.value = this.panelName;
+        if (!select) return;
+
+        try {
+            const response = await fetch('http://localhost:3001/api/judge-panels');
+            const data = await response.json() as JudgePanelsResponse;
+
+            if (!response.ok || !data.success || !data.panels) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            select.innerHTML = data.panels.length > 0 ?
+                data.panels.map(panel => `<option value="${panel.id}">${panel.name} (${panel.judges.length} judges)</option>`).join('') :
+                '<option value="">No saved panels yet</option>';
+            if (this.panelId && data.panels.some(panel => panel.id === this.panelId)) select.value = this.panelId;
+        } catch (error) {
+            console.warn('⚠️ Could not load saved judge panels:', error);
+        }
+    }
+
+    async saveJudgePanel(): Promise<void> {
+        const name = (document.getElementById('panelName') as HTMLInputElement | null)?.value.trim() || '';
+        if (!name) {
+            this.showError('Give the panel a name before saving it');
+            return;
+        }
+
+        // Saving under the same name updates the saved panel; a new name saves a copy
+        const id = name === this.panelName ? this.panelId : null;
+        this.panelName = name;
+        const panel = await this.postJudgePanel({ ...this.toJudgePanelFile(), id: id || undefined });
+        if (panel) {
+            this.useJudgePanel(panel);
+            this.showSuccess(`✅ Saved judge panel: ${panel.name}`);
+        }
+    }
+
+    async loadJudgePanel(): Promise<void> {
+        const panelId = (document.getElementById('savedPanels') as HTMLSelectElement | null)?.value || '';
+        if (!panelId) {
+            this.showError('Pick a saved panel to load');
+            return;
+        }
+
+        try {
+            const response = await fetch(`http://localhost:3001/api/judge-panels/${encodeURIComponent(panelId)}`);
+            const data = await response.json() as JudgePanelsResponse;
+
+            if (!response.ok || !data.success || !data.panel) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.useJudgePanel(data.panel);
+            const nameInput = document.getElementById('panelName') as HTMLInputElement | null;
+            if (nameInput) nameInput.value = data.panel.name;
+            this.showSuccess(`✅ Loaded judge panel: ${data.panel.name}`);
+        } catch (error) {
+            this.showError(`Could not load the judge panel: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    exportJudgePanel(): void {
+        const name = (document.getElementById('panelName') as HTMLInputElement | null)?.value.trim() || this.panelName;
+        const file = { ...this.toJudgePanelFile(), name };
+        const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'judge-panel'}.judges.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        window.URL.revokeObjectURL(url);
+
+        this.showSuccess(`✅ Exported judge panel: ${name} (${this.judges.length} judges)`);
+    }
+
+    /** Imports a panel file; the server validates it and saves it as a new panel. */
+    async importJudgePanel(): Promise<void> {
+        const fileInput = document.getElementById('panelImport') as HTMLInputElement | null;
+        const file = fileInput?.files?.[0];
+        if (!file) {
+            this.showError('Choose a judge panel JSON file to import');
+            return;
+        }
+
+        let panelFile: JudgePanelFile;
+        try {
+            panelFile = JSON.parse(await file.text());
+        } catch (error) {
+            this.showError(`Could not read ${file.name}: not valid JSON`);
+            return;
+        }
+
+        const panel = await this.postJudgePanel(panelFile);
+        if (panel) {
+            if (fileInput) fileInput.value = '';
+            this.useJudgePanel(panel);
+            const nameInput = document.getElementById('panelName') as HTMLInputElement | null;
+            if (nameInput) nameInput.value = panel.name;
+            this.showSuccess(`✅ Imported judge panel: ${panel.name} (${panel.judges.length} judges)`);
+        }
+    }
+
+    private async postJudgePanel(file: JudgePanelFile & { id?: string }): Promise<JudgePanel | null> {
+        try {
+            const response = await fetch('http://localhost:3001/api/judge-panels', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(file)
+            });
+            const data = await response.json() as JudgePanelsResponse;
+
+            if (!response.ok || !data.success || !data.panel) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            await this.loadJudgePanels();
+            return data.panel;
+        } catch (error) {
+            this.showError(`Could not save the judge panel: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        }
+    }
+
     private renderJudges(): void {
         const judgesGrid = document.getElementById('judgesGrid');
         if (!judgesGrid) return;
@@ -129,9 +690,25 @@ class HackathonJudge {
         judgesGrid.innerHTML = this.judges.map(judge => {
             const summary = this.generateJudgeSummary(judge.description);
             const judgeId = judge.id.replace(/'/g, "\\'");
+            const disabled = judge.enabled === false;
+
+            if (judge.id === this.editingJudgeId) {
+                return `
+                    <div class="judge-card judge-editing">
+                        <input type="text" id="editJudgeName" value="${this.escapeHtml(judge.name)}" placeholder="Judge Name" />
+                        <textarea id="editJudgeDescription" placeholder="Description">${this.escapeHtml(judge.description)}</textarea>
+                        <textarea id="editJudgePrompt" placeholder="${judge.kind === 'human' ? 'Optional guidance for the human judge' : 'Judge prompt'}">${this.escapeHtml(judge.prompt)}</textarea>
+                        <div class="judge-actions">
+                            <button class="btn" onclick="saveJudgeEdit('${judgeId}')">💾 Save</button>
+                            <button class="btn" onclick="cancelJudgeEdit()">Cancel</button>
+                        </div>
+                    </div>
+                `;
+            }
 
             return `
-                <div class="judge-card" style="position: relative;">
+                <div class="judge-card${disabled ? ' judge-disabled' : ''}" style="position: relative;" draggable="true"
+                    ondragstart="judgeDragStart(event, '${judgeId}')" ondragover="judgeDragOver(event)" ondrop="judgeDrop(event, '${judgeId}')" ondragend="judgeDragEnd(event)">
                     <button 
                         onclick="removeJudge('${judgeId}')" 
                         style="position: absolute; top: 8px; right: 8px; background: transparent; color: #cc8b5c; border: none; border-radius: 50%; width: 24px; height: 24px; cursor: pointer; font-size: 16px; font-weight: bold; display: flex; align-items: center; justify-content: center; transition: all 0.2s ease; z-index: 10;"
@@ -141,8 +718,27 @@ class HackathonJudge {
                     >
                         ×
                     </button>
-                    <h3>${judge.name}</h3>
+                    <h3><span class="drag-handle" title="Drag to reorder">⠿</span> ${judge.name}</h3>
                     <p class="judge-summary">${summary}</p>
+                    ${judge.criteria && judge.criteria.length > 0 ? `
+                        <div style="font-size: 12px; color: #a8a8a8; margin-top: 8px;">
+                            📐 Rubric: ${judge.criteria.map(criterion => `${criterion.name} (${criterion.maxPoints})`).join(' + ')}
+                        </div>
+                    ` : ''}
+                    ${judge.tracks && judge.tracks.length > 0 ? `
+                        <div style="font-size: 12px; color: #a8a8a8; margin-top: 4px;">
+                            🎯 Tracks: ${judge.tracks.map(track => this.getTrackName(track)).join(', ')}
+                        </div>
+                    ` : ''}
+                    ${judge.kind === 'human' ? `
+                        <div style="font-size: 12px; color: #a8a8a8; margin-top: 4px;">
+                            🧑 Human judge · scores are entered under Human Scores
+                        </div>
+                    ` : this.formatModelSettings(judge) ? `
+                        <div style="font-size: 12px; color: #a8a8a8; margin-top: 4px;">
+                            🤖 ${this.formatModelSettings(judge)}
+                        </div>
+                    ` : ''}
                     <details class="judge-details">
                         <summary style="cursor: pointer; color: #cc8b5c; font-size: 14px; margin-top: 8px;">
                             📋 View full description
@@ -151,9 +747,413 @@ class HackathonJudge {
                             ${judge.description.replace(/\n/g, '<br>')}
                         </div>
                     </details>
+                    <div class="judge-actions">
+                        <label class="judge-toggle" title="Disabled judges sit out runs but stay on the panel">
+                            <input type="checkbox" ${disabled ? '' : 'checked'} onchange="toggleJudge('${judgeId}')" /> Enabled
+                        </label>
+                        <button class="btn" onclick="editJudge('${judgeId}')">✏️ Edit</button>
+                        <button class="btn" onclick="duplicateJudge('${judgeId}')">⧉ Duplicate</button>
+                    </div>
                 </div>
             `;
         }).join('');
+
+        this.renderHumanScoring();
+        this.renderAwardJudgeOptions();
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    editJudge(judgeId: string): void {
+        this.editingJudgeId = judgeId;
+        this.renderJudges();
+    }
+
+    cancelJudgeEdit(): void {
+        this.editingJudgeId = null;
+        this.renderJudges();
+    }
+
+    /** Saves the edited name, description and prompt, keeping the judge's ID. */
+    saveJudgeEdit(judgeId: string): void {
+        const judge = this.judges.find(candidate => candidate.id === judgeId);
+        if (!judge) {
+            this.showError('Judge not found');
+            return;
+        }
+
+        const name = (document.getElementById('editJudgeName') as HTMLInputElement | null)?.value.trim() || '';
+        const description = (document.getElementById('editJudgeDescription') as HTMLTextAreaElement | null)?.value.trim() || '';
+        const prompt = (document.getElementById('editJudgePrompt') as HTMLTextAreaElement | null)?.value.trim() || '';
+
+        if (!name || (judge.kind !== 'human' && !prompt)) {
+            this.showError('Please fill in both judge name and prompt');
+            return;
+        }
+
+        judge.name = name;
+        judge.description = description || prompt;
+        judge.prompt = prompt;
+        this.editingJudgeId = null;
+        this.saveJudgesLocally();
+        this.showSuccess(`✅ Updated judge: ${judge.name}`);
+        this.renderJudges();
+    }
+
+    duplicateJudge(judgeId: string): void {
+        const index = this.judges.findIndex(judge => judge.id === judgeId);
+        if (index === -1) {
+            this.showError('Judge not found');
+            return;
+        }
+
+        // A deep copy, so editing the variant's rubric leaves the original alone
+        const original = this.judges[index];
+        const copy: Judge = {
+            ...JSON.parse(JSON.stringify(original)),
+            id: `${original.kind === 'human' ? 'human' : 'custom'}-${Date.now()}`,
+            name: `${original.name} (copy)`
+        };
+
+        this.judges.splice(index + 1, 0, copy);
+        this.saveJudgesLocally();
+        this.showSuccess(`✅ Duplicated judge: ${original.name}`);
+        this.renderJudges();
+    }
+
+    toggleJudge(judgeId: string): void {
+        const judge = this.judges.find(candidate => candidate.id === judgeId);
+        if (!judge) return;
+
+        judge.enabled = judge.enabled === false ? undefined : false;
+        this.saveJudgesLocally();
+        this.renderJudges();
+    }
+
+    /** Moves a judge to another judge's position; the panel order is the tab order in the results. */
+    moveJudge(judgeId: string, targetId: string): void {
+        const from = this.judges.findIndex(judge => judge.id === judgeId);
+        const to = this.judges.findIndex(judge => judge.id === targetId);
+        if (from === -1 || to === -1 || from === to) return;
+
+        const [judge] = this.judges.splice(from, 1);
+        this.judges.splice(to, 0, judge);
+        this.saveJudgesLocally();
+        this.renderJudges();
+    }
+
+    private formatModelSettings(settings: ModelSettings): string {
+        const parts: string[] = [];
+        if (settings.model) parts.push(settings.model);
+        if (settings.temperature !== undefined) parts.push(`temperature ${settings.temperature}`);
+        if (settings.maxTokens !== undefined) parts.push(`${settings.maxTokens} max tokens`);
+        if (settings.systemPrompt) parts.push('custom system prompt');
+        return parts.join(' · ');
+    }
+
+    private async loadEventConfig(): Promise<void> {
+        try {
+            const response = await fetch('http://localhost:3001/api/event');
+            const data = await response.json() as EventConfigResponse;
+
+            if (!response.ok || !data.success || !data.event) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.event = data.event;
+            this.renderEventForm();
+        } catch (error) {
+            console.warn('⚠️ Could not load the event configuration:', error);
+        }
+    }
+
+    private renderEventForm(): void {
+        const setValue = (id: string, value: string) => {
+            const input = document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null;
+            if (input) input.value = value;
+        };
+
+        setValue('eventName', this.event.name);
+        setValue('eventTheme', this.event.theme);
+        setValue('eventRules', this.event.rules);
+        setValue('judgingStart', this.event.judgingStart || '');
+        setValue('judgingEnd', this.event.judgingEnd || '');
+        setValue('eventTracks', this.event.tracks.map(track => track.description ? `${track.name} | ${track.description}` : track.name).join('\n'));
+        this.renderProjectTrackOptions();
+        this.renderJudgeTrackOptions();
+        this.renderAwardForm();
+    }
+
+    private renderAwardForm(): void {
+        const list = document.getElementById('awardList');
+        if (list) {
+            const awards = this.event.awards || [];
+            list.innerHTML = awards.length > 0 ? awards.map(award => `
+                <div class="award-category">
+                    <strong>🎖️ ${this.escapeHtml(award.name)}</strong>
+                    <span class="score-spread">${award.method === 'judge-top-score' ?
+                        `top score of ${this.escapeHtml(this.judges.find(judge => judge.id === award.judgeId)?.name || award.judgeId || '')}` :
+                        'decided by the master judge'}${award.tracks && award.tracks.length > 0 ? ` · ${award.tracks.map(track => this.getTrackName(track)).join(', ')}` : ''}${typeof award.minScore === 'number' ? ` · average ${award.minScore}+` : ''}${award.requiredTechnologies && award.requiredTechnologies.length > 0 ? ` · uses ${award.requiredTechnologies.map(id => this.escapeHtml(this.technologySignatures.find(signature => signature.id === id)?.name || id)).join(', ')}` : ''}</span>
+                    ${award.criteria ? `<p class="score-spread">${this.escapeHtml(award.criteria)}</p>` : ''}
+                    <button class="btn" onclick="removeAward('${(award.id || '').replace(/'/g, "\\'")}')">Remove</button>
+                </div>
+            `).join('') : '<p class="template-hint">No awards yet.</p>';
+        }
+
+        const tracks = document.getElementById('awardTracks') as HTMLSelectElement | null;
+        if (tracks) {
+            tracks.innerHTML = this.trackOptions();
+            tracks.classList.toggle('hidden', this.event.tracks.length === 0);
+        }
+
+        this.renderAwardJudgeOptions();
+        this.renderAwardTechnologyOptions();
+    }
+
+    private renderAwardTechnologyOptions(): void {
+        const select = document.getElementById('awardTechnologies') as HTMLSelectElement | null;
+        if (!select) return;
+
+        select.innerHTML = this.technologySignatures.map(signature => `<option value="${this.escapeHtml(signature.id)}">${this.escapeHtml(signature.name)}</option>`).join('');
+        select.classList.toggle('hidden', this.technologySignatures.length === 0);
+    }
+
+    private async loadTechnologySignatures(): Promise<void> {
+        try {
+            const response = await fetch('http://localhost:3001/api/technology-signatures');
+            const data = await response.json() as TechnologySignaturesResponse;
+
+            if (!response.ok || !data.success || !data.signatures) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.technologySignatures = data.signatures;
+            this.renderTechnologySignatures();
+        } catch (error) {
+            console.warn('⚠️ Could not load the technology signatures:', error);
+        }
+    }
+
+    private renderTechnologySignatures(): void {
+        const textarea = document.getElementById('technologySignatures') as HTMLTextAreaElement | null;
+        if (textarea) textarea.value = JSON.stringify(this.technologySignatures, null, 2);
+        this.renderAwardForm();
+    }
+
+    async saveTechnologySignatures(): Promise<void> {
+        const textarea = document.getElementById('technologySignatures') as HTMLTextAreaElement | null;
+        let signatures: unknown;
+        try {
+            signatures = JSON.parse(textarea?.value || '[]');
+        } catch (error) {
+            this.showError('The technology signatures are not valid JSON');
+            return;
+        }
+
+        try {
+            const response = await fetch('http://localhost:3001/api/technology-signatures', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ signatures })
+            });
+            const data = await response.json() as TechnologySignaturesResponse;
+
+            if (!response.ok || !data.success || !data.signatures) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.technologySignatures = data.signatures;
+            this.renderTechnologySignatures();
+            this.showSuccess(`✅ Saved ${data.signatures.length} technology signatures`);
+        } catch (error) {
+            this.showError(`Could not save the technology signatures: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private renderAwardJudgeOptions(): void {
+        const select = document.getElementById('awardJudge') as HTMLSelectElement | null;
+        if (!select) return;
+
+        const selected = select.value;
+        select.innerHTML = this.judges.map(judge => `<option value="${this.escapeHtml(judge.id)}">${this.escapeHtml(judge.name)}</option>`).join('');
+        if (this.judges.some(judge => judge.id === selected)) select.value = selected;
+    }
+
+    async addAward(): Promise<void> {
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null)?.value.trim() || '';
+        const method = value('awardMethod') === 'judge-top-score' ? 'judge-top-score' : 'master-judge';
+        const tracksSelect = document.getElementById('awardTracks') as HTMLSelectElement | null;
+        const tracks = tracksSelect ? Array.from(tracksSelect.selectedOptions).map(option => option.value) : [];
+        const technologiesSelect = document.getElementById('awardTechnologies') as HTMLSelectElement | null;
+        const requiredTechnologies = technologiesSelect ? Array.from(technologiesSelect.selectedOptions).map(option => option.value) : [];
+        const minScore = value('awardMinScore');
+
+        const award: AwardCategory = {
+            name: value('awardName'),
+            criteria: value('awardCriteria'),
+            method,
+            judgeId: method === 'judge-top-score' ? value('awardJudge') : undefined,
+            tracks: tracks.length > 0 ? tracks : undefined,
+            minScore: minScore ? Number(minScore) : undefined,
+            requiredTechnologies: requiredTechnologies.length > 0 ? requiredTechnologies : undefined
+        };
+
+        if (!award.name || (method === 'master-judge' && !award.criteria) || (method === 'judge-top-score' && !award.judgeId)) {
+            this.showError(method === 'master-judge' ? 'Give the award a name and criteria' : 'Give the award a name and pick a judge');
+            return;
+        }
+
+        const previous = this.event.awards || [];
+        this.event.awards = [...previous, award];
+        if (await this.saveEventConfig()) {
+            for (const id of ['awardName', 'awardCriteria', 'awardMinScore']) {
+                (document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement).value = '';
+            }
+        } else {
+            this.event.awards = previous;
+        }
+    }
+
+    async removeAward(awardId: string): Promise<void> {
+        const previous = this.event.awards || [];
+        this.event.awards = previous.filter(award => award.id !== awardId);
+        if (!await this.saveEventConfig()) {
+            this.event.awards = previous;
+        }
+    }
+
+    private trackOptions(): string {
+        return this.event.tracks.map(track => `<option value="${this.escapeHtml(track.id)}">${this.escapeHtml(track.name)}</option>`).join('');
+    }
+
+    private renderProjectTrackOptions(): void {
+        const select = document.getElementById('projectTrack') as HTMLSelectElement | null;
+        if (!select) return;
+
+        select.innerHTML = `<option value="">${this.event.tracks.length > 0 ? 'No track' : 'No tracks defined for the event'}</option>${this.trackOptions()}`;
+    }
+
+    // With no selection, a new judge evaluates every track
+    private renderJudgeTrackOptions(): void {
+        const select = document.getElementById('judgeTracks') as HTMLSelectElement | null;
+        if (!select) return;
+
+        select.innerHTML = this.trackOptions();
+        select.classList.toggle('hidden', this.event.tracks.length === 0);
+    }
+
+    private getTrackName(trackId: string | undefined, tracks: EventTrack[] = this.event.tracks): string | undefined {
+        return trackId ? tracks.find(track => track.id === trackId)?.name ?? trackId : undefined;
+    }
+
+    /** Saves the event form and the award list; returns whether the server accepted them. */
+    async saveEventConfig(): Promise<boolean> {
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement | null)?.value.trim() || '';
+
+        // Tracks keep their ID while their name is unchanged, so projects stay assigned to them
+        const tracks = value('eventTracks').split('\n').map(line => line.trim()).filter(line => line).map(line => {
+            const [name, ...description] = line.split('|').map(part => part.trim());
+            const existing = this.event.tracks.find(track => track.name === name);
+            return { id: existing?.id, name, description: description.join(' | ') || undefined };
+        });
+
+        try {
+            const response = await fetch('http://localhost:3001/api/event', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: value('eventName'),
+                    theme: value('eventTheme'),
+                    rules: value('eventRules'),
+                    judgingStart: value('judgingStart') || undefined,
+                    judgingEnd: value('judgingEnd') || undefined,
+                    tracks,
+                    awards: this.event.awards || []
+                })
+            });
+            const data = await response.json() as EventConfigResponse;
+
+            if (!response.ok || !data.success || !data.event) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.event = data.event;
+            this.renderEventForm();
+            this.showSuccess(`✅ Saved event: ${data.event.name || 'Unnamed event'}`);
+            return true;
+        } catch (error) {
+            this.showError(`Could not save the event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return false;
+        }
+    }
+
+    private async loadModels(): Promise<void> {
+        try {
+            const response = await fetch('http://localhost:3001/api/models');
+            const data = await response.json() as ModelsResponse;
+
+            if (!response.ok || !data.success || !data.models) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            for (const selectId of ['judgeModel', 'masterJudgeModel']) {
+                const select = document.getElementById(selectId) as HTMLSelectElement | null;
+                if (!select) continue;
+
+                select.innerHTML = `<option value="">Default model (${data.defaultModel})</option>` +
+                    data.models.map(model => `<option value="${model.id}">${model.id} (up to ${model.maxTokens} tokens)</option>`).join('');
+            }
+
+            const notesSelect = document.getElementById('mapReduceModel') as HTMLSelectElement | null;
+            if (notesSelect) {
+                notesSelect.innerHTML = `<option value="">Default notes model (${data.notesModel})</option>` +
+                    data.models.map(model => `<option value="${model.id}">${model.id}</option>`).join('');
+            }
+        } catch (error) {
+            console.warn('⚠️ Could not load the model list, judges will use the default model:', error);
+        }
+    }
+
+    /**
+     * Reads the model, temperature, token limit and system prompt inputs
+     * sharing the given id prefix (e.g. "judge" reads #judgeModel).
+     */
+    private readModelSettings(prefix: string): ModelSettings {
+        const model = (document.getElementById(`${prefix}Model`) as HTMLSelectElement | null)?.value || '';
+        const temperature = (document.getElementById(`${prefix}Temperature`) as HTMLInputElement | null)?.value.trim() || '';
+        const maxTokens = (document.getElementById(`${prefix}MaxTokens`) as HTMLInputElement | null)?.value.trim() || '';
+        const systemPrompt = (document.getElementById(`${prefix}SystemPrompt`) as HTMLTextAreaElement | null)?.value.trim() || '';
+
+        const settings: ModelSettings = {};
+        if (model) settings.model = model;
+
+        if (temperature) {
+            const value = Number(temperature);
+            if (isNaN(value) || value < 0 || value > 1) {
+                throw new Error('Temperature must be between 0 and 1');
+            }
+            settings.temperature = value;
+        }
+
+        if (maxTokens) {
+            const value = Number(maxTokens);
+            if (!Number.isInteger(value) || value < 1) {
+                throw new Error('Max output tokens must be a positive whole number');
+            }
+            settings.maxTokens = value;
+        }
+
+        if (systemPrompt) settings.systemPrompt = systemPrompt;
+        return settings;
+    }
+
+    private clearModelSettings(prefix: string): void {
+        for (const field of ['Model', 'Temperature', 'MaxTokens', 'SystemPrompt']) {
+            const input = document.getElementById(`${prefix}${field}`) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+            if (input) input.value = '';
+        }
     }
 
     private generateJudgeSummary(description: string): string {
@@ -213,27 +1213,292 @@ class HackathonJudge {
                     ✅ No files were excluded during processing
                 </div>`;
 
-            return `
-                <div class="project-item">
-                    <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 8px;">
-                        <div style="flex: 1; min-width: 0;">
-                            <h4>${project.name}</h4>
-                            <p>${project.files.length} files uploaded</p>
-                        </div>
-                        <button 
-                            class="btn" 
-                            style="font-size: 12px; padding: 6px 12px; margin-left: 12px; flex-shrink: 0;"
-                            onclick="downloadProject('${project.name.replace(/'/g, "\\'")}')"
-                        >
-                            📥 Download
-                        </button>
-                    </div>
-                    <div style="width: 100%; overflow: hidden;">
-                        ${droppedInfo}
-                    </div>
-                </div>
-            `;
-        }).join('');
+            return `
+                <div class="project-item">
+                    <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 8px;">
+                        <div style="flex: 1; min-width: 0;">
+                            <h4>${project.name}</h4>
+                            <p>${project.files.length} files uploaded${project.track ? ` · 🎯 ${this.getTrackName(project.track)}` : ''}</p>
+                        </div>
+                        <button 
+                            class="btn" 
+                            style="font-size: 12px; padding: 6px 12px; margin-left: 12px; flex-shrink: 0;"
+                            onclick="downloadProject('${project.name.replace(/'/g, "\\'")}')"
+                        >
+                            📥 Download
+                        </button>
+                    </div>
+                    <div style="width: 100%; overflow: hidden;">
+                        ${droppedInfo}
+                    </div>
+                </div>
+            `;
+        }).join('');
+
+        this.loadHumanScores();
+    }
+
+    private async loadHumanScores(): Promise<void> {
+        const projectIds = this.projects.map(project => project.id).filter((id): id is string => !!id);
+        if (projectIds.length === 0) {
+            this.humanScores = [];
+            this.renderHumanScoring();
+            return;
+        }
+
+        try {
+            const response = await fetch(`http://localhost:3001/api/human-scores?projectIds=${projectIds.map(encodeURIComponent).join(',')}`);
+            const data = await response.json() as HumanScoresResponse;
+
+            if (!response.ok || !data.success || !data.scores) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            this.humanScores = data.scores;
+        } catch (error) {
+            console.warn('⚠️ Could not load human scores:', error);
+        }
+
+        this.renderHumanScoring();
+    }
+
+    /**
+     * Fills the scoring form's project and judge pickers and shows which
+     * human judges have scored which projects.
+     */
+    private renderHumanScoring(): void {
+        const projectSelect = document.getElementById('humanScoreProject') as HTMLSelectElement | null;
+        const judgeSelect = document.getElementById('humanScoreJudge') as HTMLSelectElement | null;
+        const overview = document.getElementById('humanScoreOverview');
+
+        const projects = this.projects.filter(project => project.id);
+        const humanJudges = this.judges.filter(judge => judge.kind === 'human');
+
+        if (projectSelect) {
+            const selected = projectSelect.value;
+            projectSelect.innerHTML = projects.length > 0 ?
+                projects.map(project => `<option value="${project.id}">${project.name}</option>`).join('') :
+                '<option value="">Upload a project first</option>';
+            if (projects.some(project => project.id === selected)) projectSelect.value = selected;
+        }
+
+        if (judgeSelect) {
+            const selected = judgeSelect.value;
+            judgeSelect.innerHTML = humanJudges.length > 0 ?
+                humanJudges.map(judge => `<option value="${judge.id}">${judge.name}</option>`).join('') :
+                '<option value="">Add a human judge first</option>';
+            if (humanJudges.some(judge => judge.id === selected)) judgeSelect.value = selected;
+        }
+
+        if (!overview) return;
+
+        if (projects.length === 0 || humanJudges.length === 0) {
+            overview.innerHTML = '';
+            return;
+        }
+
+        overview.innerHTML = `
+            <table>
+                <thead>
+                    <tr><th>Project</th>${humanJudges.map(judge => `<th>${judge.name}</th>`).join('')}</tr>
+                </thead>
+                <tbody>
+                    ${projects.map(project => `
+                        <tr>
+                            <td>${project.name}</td>
+                            ${humanJudges.map(judge => {
+                                const score = this.humanScores.find(entry => entry.projectId === project.id && entry.judgeId === judge.id);
+                                return `<td>${score ? `${score.score}/10` : '—'}</td>`;
+                            }).join('')}
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    }
+
+    async submitHumanScore(): Promise<void> {
+        const projectId = (document.getElementById('humanScoreProject') as HTMLSelectElement | null)?.value || '';
+        const judgeId = (document.getElementById('humanScoreJudge') as HTMLSelectElement | null)?.value || '';
+        const scoreInput = document.getElementById('humanScoreValue') as HTMLInputElement | null;
+        const summaryInput = document.getElementById('humanScoreSummary') as HTMLTextAreaElement | null;
+        const likesInput = document.getElementById('humanScoreLikes') as HTMLTextAreaElement | null;
+        const dislikesInput = document.getElementById('humanScoreDislikes') as HTMLTextAreaElement | null;
+
+        const judge = this.judges.find(candidate => candidate.id === judgeId && candidate.kind === 'human');
+        if (!projectId || !judge) {
+            this.showError('Pick a project and a human judge to score it');
+            return;
+        }
+
+        const score = Number(scoreInput?.value.trim());
+        if (!scoreInput?.value.trim() || isNaN(score) || score < 1 || score > 10) {
+            this.showError('The score must be a number from 1 to 10');
+            return;
+        }
+
+        const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line);
+        const saved = await this.saveHumanScores([{
+            projectId,
+            judgeId: judge.id,
+            judgeName: judge.name,
+            score,
+            summary: summaryInput?.value.trim() || '',
+            likes: toLines(likesInput?.value || ''),
+            dislikes: toLines(dislikesInput?.value || '')
+        }]);
+
+        if (saved) {
+            for (const input of [scoreInput, summaryInput, likesInput, dislikesInput]) {
+                if (input) input.value = '';
+            }
+            this.showSuccess(`✅ Saved ${judge.name}'s score`);
+        }
+    }
+
+    /**
+     * Imports human scores from a CSV or JSON file, one row per project and
+     * judge with the columns project, judge, score, summary, likes and
+     * dislikes. Projects are matched by name; judges by name, and judges not
+     * on the panel yet are added as human judges. In CSV files, likes and
+     * dislikes are separated by semicolons.
+     */
+    async importHumanScores(): Promise<void> {
+        const fileInput = document.getElementById('humanScoreImport') as HTMLInputElement | null;
+        const file = fileInput?.files?.[0];
+        if (!file) {
+            this.showError('Choose a CSV or JSON file of human scores to import');
+            return;
+        }
+
+        let rows: Array<Record<string, unknown>>;
+        try {
+            const text = await file.text();
+            if (file.name.toLowerCase().endsWith('.json')) {
+                const parsed = JSON.parse(text);
+                rows = Array.isArray(parsed) ? parsed : parsed.scores;
+                if (!Array.isArray(rows)) throw new Error('Expected an array of scores');
+            } else {
+                const [header, ...records] = this.parseCsv(text);
+                const columns = (header || []).map(column => column.trim().toLowerCase());
+                rows = records.map(record => Object.fromEntries(columns.map((column, index) => [column, record[index] ?? ''])));
+            }
+        } catch (error) {
+            this.showError(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Invalid file'}`);
+            return;
+        }
+
+        const toList = (value: unknown) => Array.isArray(value) ?
+            value.map(item => String(item).trim()).filter(item => item) :
+            String(value ?? '').split(';').map(item => item.trim()).filter(item => item);
+
+        const scores: HumanScore[] = [];
+        const problems: string[] = [];
+        const addedJudges: Judge[] = [];
+
+        rows.forEach((row, index) => {
+            const projectName = String(row.project ?? row.projectName ?? '').trim();
+            const judgeName = String(row.judge ?? row.judgeName ?? '').trim();
+            const project = this.projects.find(candidate => candidate.id && candidate.name.toLowerCase() === projectName.toLowerCase());
+            if (!project || !judgeName) {
+                problems.push(`row ${index + 1}: ${project ? 'missing judge' : `unknown project "${projectName}"`}`);
+                return;
+            }
+
+            let judge = [...this.judges, ...addedJudges].find(candidate => candidate.kind === 'human' && candidate.name.toLowerCase() === judgeName.toLowerCase());
+            if (!judge) {
+                judge = { id: `human-${Date.now()}-${addedJudges.length}`, name: judgeName, description: 'Human judge', prompt: '', kind: 'human' };
+                addedJudges.push(judge);
+            }
+
+            scores.push({
+                projectId: project.id!,
+                judgeId: judge.id,
+                judgeName: judge.name,
+                score: Number(row.score),
+                summary: String(row.summary ?? '').trim(),
+                likes: toList(row.likes),
+                dislikes: toList(row.dislikes)
+            });
+        });
+
+        if (problems.length > 0 || scores.length === 0) {
+            this.showError(`Nothing imported: ${problems.length > 0 ? problems.join('; ') : 'the file has no scores'}`);
+            return;
+        }
+
+        if (addedJudges.length > 0) {
+            this.judges.push(...addedJudges);
+            this.saveJudgesLocally();
+            this.renderJudges();
+        }
+
+        if (await this.saveHumanScores(scores)) {
+            if (fileInput) fileInput.value = '';
+            this.showSuccess(`✅ Imported ${scores.length} human score(s)${addedJudges.length > 0 ? `, added human judges: ${addedJudges.map(judge => judge.name).join(', ')}` : ''}`);
+        }
+    }
+
+    private async saveHumanScores(scores: HumanScore[]): Promise<boolean> {
+        try {
+            const response = await fetch('http://localhost:3001/api/human-scores', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ scores })
+            });
+            const data = await response.json() as HumanScoresResponse;
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+        } catch (error) {
+            this.showError(`Could not save human scores: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return false;
+        }
+
+        await this.loadHumanScores();
+        return true;
+    }
+
+    /** Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines. */
+    private parseCsv(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let quoted = false;
+
+        for (let index = 0; index < text.length; index++) {
+            const char = text[index];
+            if (quoted) {
+                if (char === '"' && text[index + 1] === '"') {
+                    field += '"';
+                    index++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                row.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[index + 1] === '\n') index++;
+                row.push(field);
+                if (row.some(value => value.trim())) rows.push(row);
+                row = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        row.push(field);
+        if (row.some(value => value.trim())) rows.push(row);
+        return rows;
     }
 
     async downloadProject(projectName: string): Promise<void> {
@@ -281,6 +1546,8 @@ class HackathonJudge {
 
     async uploadProject(): Promise<void> {
         const nameInput = document.getElementById('projectName') as HTMLInputElement;
+        const description = (document.getElementById('projectDescription') as HTMLTextAreaElement | null)?.value.trim() || '';
+        const track = (document.getElementById('projectTrack') as HTMLSelectElement | null)?.value || '';
         const folderInput = document.getElementById('folderUpload') as HTMLInputElement;
         const zipInput = document.getElementById('zipUpload') as HTMLInputElement;
         const uploadSection = document.querySelector('.upload-section') as HTMLElement;
@@ -300,18 +1567,18 @@ class HackathonJudge {
                 this.showError('Please select a ZIP file');
                 return;
             }
-            return this.uploadZipFile(nameInput, zipInput, uploadSection);
+            return this.uploadZipFile(nameInput, { description, track }, zipInput, uploadSection);
         } else {
             // Folder upload
             if (!folderInput.files || folderInput.files.length === 0) {
                 this.showError('Please select a project folder');
                 return;
             }
-            return this.uploadFolderFiles(nameInput, folderInput, uploadSection);
+            return this.uploadFolderFiles(nameInput, { description, track }, folderInput, uploadSection);
         }
     }
 
-    private async uploadZipFile(nameInput: HTMLInputElement, zipInput: HTMLInputElement, uploadSection: HTMLElement): Promise<void> {
+    private async uploadZipFile(nameInput: HTMLInputElement, details: ProjectDetails, zipInput: HTMLInputElement, uploadSection: HTMLElement): Promise<void> {
         const zipFile = zipInput.files![0];
 
         // Show upload progress for ZIP
@@ -329,6 +1596,7 @@ class HackathonJudge {
         try {
             const formData = new FormData();
             formData.append('projectName', nameInput.value.trim());
+            this.appendProjectDetails(formData, details);
             formData.append('zipFile', zipFile);
             formData.append('uploadType', 'zip');
 
@@ -345,9 +1613,11 @@ class HackathonJudge {
 
             // Add project to local list
             this.projects.push({
+                id: result.projectId,
                 name: result.projectName,
                 files: result.files,
-                droppedSummary: result.droppedSummary
+                droppedSummary: result.droppedSummary,
+                track: result.track
             });
 
             this.showSuccess(`✅ ZIP uploaded successfully! ${result.files.length} files processed`);
@@ -378,7 +1648,7 @@ class HackathonJudge {
         }
     }
 
-    private async uploadFolderFiles(nameInput: HTMLInputElement, fileInput: HTMLInputElement, uploadSection: HTMLElement): Promise<void> {
+    private async uploadFolderFiles(nameInput: HTMLInputElement, details: ProjectDetails, fileInput: HTMLInputElement, uploadSection: HTMLElement): Promise<void> {
 
         const fileCount = fileInput.files!.length;
         const isLargeUpload = fileCount > 1000;
@@ -428,6 +1698,7 @@ class HackathonJudge {
 
             const formData = new FormData();
             formData.append('projectName', nameInput.value.trim());
+            this.appendProjectDetails(formData, details);
 
             // Pre-filter files on client side to reduce upload size dramatically
             const filteredFiles: File[] = [];
@@ -613,9 +1884,11 @@ class HackathonJudge {
 
             // Add project to local list
             this.projects.push({
+                id: result.projectId,
                 name: result.projectName,
                 files: result.files,
-                droppedSummary: result.droppedSummary
+                droppedSummary: result.droppedSummary,
+                track: result.track
             });
 
             let message = `✅ Uploaded ${result.files.length} files successfully!`;
@@ -670,10 +1943,17 @@ class HackathonJudge {
         }
     }
 
+    private appendProjectDetails(formData: FormData, details: ProjectDetails): void {
+        if (details.description) formData.append('projectDescription', details.description);
+        if (details.track) formData.append('projectTrack', details.track);
+    }
+
     private restoreUploadForm(uploadSection: HTMLElement): void {
         uploadSection.innerHTML = `
             <div>
                 <input type="text" id="projectName" class="upload-input" placeholder="Project Name" />
+                <textarea id="projectDescription" class="upload-input project-description" placeholder="Optional short description (defaults to the README's first paragraph)"></textarea>
+                <select id="projectTrack" class="upload-input"><option value="">No tracks defined for the event</option></select>
                 
                 <!-- Upload Method Tabs -->
                 <div style="margin: 16px 0;">
@@ -706,6 +1986,7 @@ class HackathonJudge {
                 <button class="btn" onclick="uploadProject()">Upload Project</button>
             </div>
         `;
+        this.renderProjectTrackOptions();
     }
 
     private showWarning(message: string): void {
@@ -800,25 +2081,68 @@ class HackathonJudge {
     addCustomJudge(): void {
         const nameInput = document.getElementById('judgeName') as HTMLInputElement;
         const promptInput = document.getElementById('judgePrompt') as HTMLTextAreaElement;
+        const kindSelect = document.getElementById('judgeKind') as HTMLSelectElement | null;
+        const isHuman = kindSelect?.value === 'human';
+        const tracksSelect = document.getElementById('judgeTracks') as HTMLSelectElement | null;
+        const tracks = tracksSelect ? Array.from(tracksSelect.selectedOptions).map(option => option.value) : [];
 
-        if (!nameInput.value.trim() || !promptInput.value.trim()) {
+        // Human judges only need a name; their prompt is optional guidance
+        if (!nameInput.value.trim() || (!isHuman && !promptInput.value.trim())) {
             this.showError('Please fill in both judge name and prompt');
             return;
         }
 
+        if (isHuman) {
+            const humanJudge: Judge = {
+                id: `human-${Date.now()}`,
+                name: nameInput.value.trim(),
+                description: promptInput.value.trim() || 'Human judge',
+                prompt: promptInput.value.trim(),
+                kind: 'human',
+                tracks: tracks.length > 0 ? tracks : undefined
+            };
+
+            this.judges.push(humanJudge);
+            this.saveJudgesLocally();
+            nameInput.value = '';
+            promptInput.value = '';
+            if (tracksSelect) tracksSelect.selectedIndex = -1;
+            this.showSuccess(`✅ Added human judge: ${humanJudge.name}`);
+            this.renderJudges();
+            return;
+        }
+
+        const rubricInput = document.getElementById('judgeRubric') as HTMLTextAreaElement | null;
+        let criteria: JudgeCriterion[] = [];
+        let settings: ModelSettings;
+        try {
+            criteria = this.parseRubric(rubricInput?.value || '');
+            settings = this.readModelSettings('judge');
+        } catch (error) {
+            this.showError(error instanceof Error ? error.message : 'Invalid judge settings');
+            return;
+        }
+
         // Use the prompt as the description for the custom judge
         const customJudge: Judge = {
             id: `custom-${Date.now()}`,
             name: nameInput.value.trim(),
             description: promptInput.value.trim(), // Use the full prompt as description
-            prompt: promptInput.value.trim()
+            prompt: promptInput.value.trim(),
+            criteria: criteria.length > 0 ? criteria : undefined,
+            tracks: tracks.length > 0 ? tracks : undefined,
+            ...settings
         };
 
         this.judges.push(customJudge);
+        this.saveJudgesLocally();
         
         // Clear the form
         nameInput.value = '';
         promptInput.value = '';
+        if (rubricInput) rubricInput.value = '';
+        if (tracksSelect) tracksSelect.selectedIndex = -1;
+        this.clearModelSettings('judge');
         
         // Show success message
         this.showSuccess(`✅ Added custom judge: ${customJudge.name}`);
@@ -827,6 +2151,32 @@ class HackathonJudge {
         this.renderJudges();
     }
 
+    /**
+     * Parses one criterion per line in the form "Name | max points | description",
+     * e.g. "Architecture | 15 | Clear module boundaries".
+     */
+    private parseRubric(text: string): JudgeCriterion[] {
+        const criteria: JudgeCriterion[] = [];
+
+        for (const line of text.split('\n').map(item => item.trim()).filter(item => item)) {
+            const [name, points, ...descriptionParts] = line.split('|').map(part => part.trim());
+            const maxPoints = Number(points);
+
+            if (!name || !(maxPoints > 0)) {
+                throw new Error(`Invalid rubric line "${line}". Use: Name | max points | description`);
+            }
+
+            criteria.push({
+                id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `criterion-${criteria.length + 1}`,
+                name,
+                description: descriptionParts.join('|') || undefined,
+                maxPoints
+            });
+        }
+
+        return criteria;
+    }
+
     removeJudge(judgeId: string): void {
         // Safety check: don't allow removing all judges
         if (this.judges.length <= 1) {
@@ -851,386 +2201,594 @@ class HackathonJudge {
         }
 
         this.judges = this.judges.filter(judge => judge.id !== judgeId);
+        this.saveJudgesLocally();
         this.showSuccess(`✅ Removed judge: ${judgeToRemove.name}`);
         this.renderJudges();
     }
 
-    private async callClaudeAPI(prompt: string): Promise<string> {
+    async startJudging(): Promise<void> {
+        if (this.projects.length === 0) {
+            this.showError('Please upload at least one project');
+            return;
+        }
+
+        // Disabled judges stay on the panel but sit out the run
+        const judges = this.judges.filter(judge => judge.enabled !== false);
+        if (judges.length === 0) {
+            this.showError(this.judges.length === 0 ? 'No judges available' : 'Enable at least one judge to start judging');
+            return;
+        }
+
+        // Only projects stored by the server can be judged
+        const projectIds = this.projects
+            .map(project => project.id)
+            .filter((id): id is string => !!id);
+
+        if (projectIds.length === 0) {
+            this.showError('None of the uploaded projects were saved on the server. Please upload them again.');
+            return;
+        }
+
+        if (projectIds.length < this.projects.length) {
+            this.showWarning(`${this.projects.length - projectIds.length} project(s) were not saved on the server and will be skipped`);
+        }
+
+        let masterJudge: ModelSettings;
+        try {
+            masterJudge = this.readModelSettings('masterJudge');
+        } catch (error) {
+            this.showError(`Master judge settings: ${error instanceof Error ? error.message : 'Invalid settings'}`);
+            return;
+        }
+
+        let mapReduce: MapReduceSettings | undefined;
+        if ((document.getElementById('useMapReduce') as HTMLInputElement | null)?.checked) {
+            const model = (document.getElementById('mapReduceModel') as HTMLSelectElement | null)?.value || '';
+            const chunkTokens = (document.getElementById('mapReduceChunkTokens') as HTMLInputElement | null)?.value.trim() || '';
+
+            mapReduce = {};
+            if (model) mapReduce.model = model;
+            if (chunkTokens) {
+                const value = Number(chunkTokens);
+                if (!Number.isInteger(value) || value < 1000) {
+                    this.showError('Map-reduce mode: tokens per chunk must be a whole number of at least 1000');
+                    return;
+                }
+                mapReduce.chunkTokens = value;
+            }
+        }
+
+        const ranking: RankingSettings = {
+            strategy: (document.getElementById('rankingStrategy') as HTMLSelectElement | null)?.value === 'pairwise' ? 'pairwise' : 'master-judge'
+        };
+        const rounds = (document.getElementById('pairwiseRounds') as HTMLInputElement | null)?.value.trim() || '';
+        if (ranking.strategy === 'pairwise' && rounds) {
+            const value = Number(rounds);
+            if (!Number.isInteger(value) || value < 1 || value > 20) {
+                this.showError('Pairwise ranking: rounds must be a whole number from 1 to 20');
+                return;
+            }
+            ranking.rounds = value;
+        }
+
+        const samplesInput = (document.getElementById('samplesPerJudge') as HTMLInputElement | null)?.value.trim() || '';
+        const samplesPerJudge = samplesInput ? Number(samplesInput) : undefined;
+        if (samplesPerJudge !== undefined && (!Number.isInteger(samplesPerJudge) || samplesPerJudge < 1 || samplesPerJudge > 10)) {
+            this.showError('Samples per judge must be a whole number from 1 to 10');
+            return;
+        }
+
+        const prizeInput = (document.getElementById('prizeCount') as HTMLInputElement | null)?.value.trim() || '';
+        const prizeCount = prizeInput ? Number(prizeInput) : undefined;
+        if (prizeCount !== undefined && (!Number.isInteger(prizeCount) || prizeCount < 1)) {
+            this.showError('Prizes must be a whole number of at least 1');
+            return;
+        }
+
+        const normalizationValue = (document.getElementById('scoreNormalization') as HTMLSelectElement | null)?.value;
+        const normalization: ScoreNormalization = normalizationValue === 'z-score' || normalizationValue === 'rank' ? normalizationValue : 'none';
+
+        let blend: BlendWeights | undefined;
+        if (judges.some(judge => judge.kind === 'human')) {
+            const aiWeight = (document.getElementById('aiBlendWeight') as HTMLInputElement | null)?.value.trim() || '';
+            const humanWeight = (document.getElementById('humanBlendWeight') as HTMLInputElement | null)?.value.trim() || '';
+            if (aiWeight || humanWeight) {
+                blend = { ai: aiWeight ? Number(aiWeight) : 1, human: humanWeight ? Number(humanWeight) : 1 };
+                if (!(blend.ai >= 0) || !(blend.human >= 0) || blend.ai + blend.human <= 0) {
+                    this.showError('Blend weights must be non-negative numbers that are not both 0');
+                    return;
+                }
+            }
+        }
+
+        const useCache = (document.getElementById('useResponseCache') as HTMLInputElement | null)?.checked ?? true;
+
+        this.setJudgingInProgress(true, 'Submitting judging run...');
+
         try {
-            const response = await fetch('http://localhost:3001/api/claude', {
+            const response = await fetch('http://localhost:3001/api/judging-runs', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
-                    prompt: prompt,
-                    seed: this.CLAUDE_API_SEED
+                    projectIds,
+                    judges,
+                    seed: this.CLAUDE_API_SEED,
+                    masterJudge,
+                    mapReduce,
+                    ranking,
+                    samplesPerJudge,
+                    prizeCount,
+                    normalization,
+                    blend,
+                    // Unticked re-runs every call but still refreshes the cache
+                    cache: useCache ? 'use' : 'refresh'
                 })
             });
 
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
+            const data = await response.json() as JudgingRunResponse;
 
-            const data = await response.json() as ClaudeAPIResponse;
-
-            if (!data.success) {
-                throw new Error(data.error || 'API call failed');
+            if (!response.ok || !data.success || !data.run) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
             }
 
-            return data.response;
+            console.log(`🏁 Started judging run ${data.run.id} for ${projectIds.length} projects with ${judges.length} judges`);
+            localStorage.setItem(this.ACTIVE_RUN_KEY, data.run.id);
+
+            await this.watchJudgingRun(data.run.id);
         } catch (error) {
-            console.error('Error calling Claude API:', error);
-
-            // Fallback to mock response if API fails
-            const mockResponse = {
-                summary: "API call failed - using mock evaluation. The project shows reasonable implementation but detailed analysis is not available.",
-                score: Math.floor(Math.random() * 4) + 6,
-                likes: [
-                    "Project structure appears organized",
-                    "Files are properly named",
-                    "Basic functionality implemented"
-                ],
-                dislikes: [
-                    "Unable to perform detailed analysis",
-                    "API connection failed",
-                    "Limited evaluation available"
-                ]
-            };
-            return JSON.stringify(mockResponse);
-        }
-    }
-
-    private formatProjectForJudge(project: Project): string {
-        let formatted = `Project: ${project.name}\n\nFiles and Contents:\n\n`;
-        const maxSize = 7 * 1024 * 1024; // 7MB limit for formatted content
-        let currentSize = formatted.length;
-        let truncatedFiles = 0;
-
-        const sortedFiles = [...project.files].sort((a, b) => {
-            // Prioritize important files (README, main files, config files)
-            const getPriority = (filename: string) => {
-                const name = filename.toLowerCase();
-                if (name.includes('readme')) return 1;
-                if (name.includes('main') || name.includes('index')) return 2;
-                if (name.includes('config') || name.includes('package.json')) return 3;
-                if (name.endsWith('.md')) return 4;
-                if (name.endsWith('.py') || name.endsWith('.js') || name.endsWith('.ts')) return 5;
-                return 10;
-            };
-            return getPriority(a.name) - getPriority(b.name);
+            console.error('❌ Error starting judging run:', error);
+            this.showError(`Could not start judging: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            this.setJudgingInProgress(false);
+        }
+    }
+
+    private resumeActiveRun(): void {
+        const runId = localStorage.getItem(this.ACTIVE_RUN_KEY);
+        if (!runId) return;
+
+        console.log(`🔁 Reattaching to judging run ${runId}`);
+        this.setJudgingInProgress(true, 'Reconnecting to judging run...');
+        this.watchJudgingRun(runId).catch(error => {
+            console.error('❌ Error watching judging run:', error);
         });
+    }
 
-        for (const file of sortedFiles) {
-            let fileContent = `--- ${file.name} (${file.type}) ---\n`;
+    private watchJudgingRun(runId: string): Promise<void> {
+        // The stream replays every event, so the grid is rebuilt from scratch
+        this.statusGrid = null;
+        const gridDiv = document.getElementById('judgingStatusGrid');
+        if (gridDiv) gridDiv.innerHTML = '';
 
-            if (file.type.startsWith('text/') ||
-                file.type === 'application/json' ||
-                file.name.endsWith('.js') ||
-                file.name.endsWith('.ts') ||
-                file.name.endsWith('.py') ||
-                file.name.endsWith('.html') ||
-                file.name.endsWith('.css') ||
-                file.name.endsWith('.md')) {
+        return new Promise(resolve => {
+            const source = new EventSource(`http://localhost:3001/api/judging-runs/${encodeURIComponent(runId)}/events`);
+            let finished = false;
 
-                let content = file.content;
+            const finish = async () => {
+                if (finished) return;
+                finished = true;
+                source.close();
 
-                // Truncate very large files
-                if (content.length > 50000) {
-                    content = content.substring(0, 50000) + '\n... [FILE TRUNCATED - TOO LARGE] ...\n';
+                // Stream ended or was refused: the stored run says what happened
+                try {
+                    const response = await fetch(`http://localhost:3001/api/judging-runs/${encodeURIComponent(runId)}`);
+                    const data = await response.json() as JudgingRunResponse;
+
+                    if (data.run && (data.run.status === 'completed' || data.run.status === 'failed')) {
+                        this.finishJudgingRun(data.run);
+                    } else if (response.status === 404) {
+                        localStorage.removeItem(this.ACTIVE_RUN_KEY);
+                        this.setJudgingInProgress(false);
+                        this.showError('Judging run not found on the server');
+                    } else {
+                        // Still running but the stream died for good; start a new one
+                        resolve(this.watchJudgingRun(runId));
+                        return;
+                    }
+                } catch (error) {
+                    console.error('❌ Error fetching judging run results:', error);
+                    this.setJudgingInProgress(false);
+                    this.showError('Lost connection to the judging server. Reload the page to reconnect.');
                 }
 
-                fileContent += content + '\n\n';
-            } else {
-                fileContent += `[Binary file - ${file.type}, ${file.size} bytes]\n\n`;
-            }
+                resolve();
+            };
 
-            // Check if adding this file would exceed the limit
-            if (currentSize + fileContent.length > maxSize) {
-                truncatedFiles = sortedFiles.length - sortedFiles.indexOf(file);
-                break;
-            }
+            // Keyed by every event type, so a new type can't be left without a listener
+            const eventTypes: Record<JudgingRunEvent['type'], true> = {
+                'run-started': true, 'project-started': true, 'chunk-notes-completed': true, 'judge-completed': true,
+                'judge-failed': true, 'project-completed': true, 'master-ranking-started': true, 'run-finished': true
+            };
 
-            formatted += fileContent;
-            currentSize += fileContent.length;
-        }
+            for (const type of Object.keys(eventTypes) as JudgingRunEvent['type'][]) {
+                source.addEventListener(type, (message: MessageEvent) => {
+                    try {
+                        this.applyRunEvent(JSON.parse(message.data) as JudgingRunEvent);
+                    } catch (error) {
+                        console.error('❌ Error handling judging progress event:', error);
+                    }
 
-        if (truncatedFiles > 0) {
-            formatted += `\n... [${truncatedFiles} files not included due to size limits] ...\n`;
-        }
+                    if (type === 'run-finished') {
+                        finish();
+                    }
+                });
+            }
 
-        return formatted;
+            // EventSource reconnects by itself unless the server refused the stream
+            source.onerror = () => {
+                if (source.readyState === EventSource.CLOSED) {
+                    finish();
+                }
+            };
+        });
     }
 
-    async startJudging(): Promise<void> {
-        try {
-            if (this.projects.length === 0) {
-                this.showError('Please upload at least one project');
-                return;
-            }
+    private applyRunEvent(event: JudgingRunEvent): void {
+        if (event.type === 'run-started') {
+            this.statusGrid = {
+                projects: event.projects || [],
+                judges: event.judges || [],
+                cells: {},
+                phase: 'Judges are evaluating projects...'
+            };
+        }
 
-            if (this.judges.length === 0) {
-                this.showError('No judges available');
-                return;
-            }
+        const grid = this.statusGrid;
+        if (!grid) return;
 
-            const startButton = document.getElementById('startJudging') as HTMLButtonElement;
-            const progressDiv = document.getElementById('judgingProgress');
+        const cellKey = (projectId: string, judgeId: string) => `${projectId}::${judgeId}`;
 
-            startButton.disabled = true;
-            progressDiv?.classList.remove('hidden');
+        switch (event.type) {
+            case 'project-started':
+                for (const judge of grid.judges) {
+                    grid.cells[cellKey(event.projectId!, judge.id)] = { state: 'running' };
+                }
+                grid.phase = `Evaluating ${event.projectName}...`;
+                break;
+            case 'chunk-notes-completed':
+                grid.phase = `🧩 Wrote notes for ${event.projectName} in ${event.chunks} chunks${event.error ? ` (${event.error})` : ''}, judges are evaluating...`;
+                break;
+            case 'judge-completed':
+                grid.cells[cellKey(event.projectId!, event.judgeId!)] = { state: 'done', score: event.score };
+                break;
+            case 'judge-failed':
+                grid.cells[cellKey(event.projectId!, event.judgeId!)] = { state: 'failed', score: event.score, error: event.error };
+                break;
+            case 'master-ranking-started':
+                grid.phase = '🎯 Master judge is ranking all projects...';
+                break;
+            case 'run-finished':
+                grid.phase = event.status === 'completed' ? '🏆 Judging complete' : `❌ Judging failed: ${event.error || 'Unknown error'}`;
+                break;
+        }
 
-            this.evaluations = [];
+        this.renderStatusGrid();
+    }
 
-            console.log(`🏁 Starting judging process for ${this.projects.length} projects with ${this.judges.length} judges`);
+    private renderStatusGrid(): void {
+        const gridDiv = document.getElementById('judgingStatusGrid');
+        const grid = this.statusGrid;
+        if (!gridDiv || !grid) return;
 
-            // Process each project with comprehensive error handling
-            for (const project of this.projects) {
-                try {
-                    const projectEvaluation: ProjectEvaluation = {
-                        projectName: project.name,
-                        judgeResults: []
-                    };
-
-                    console.log(`📊 Evaluating project: ${project.name}`);
-
-                    const projectData = this.formatProjectForJudge(project);
-
-                    // Get evaluations from all judges in parallel
-                    const judgePromises = this.judges.map(async (judge) => {
-                        const basePrompt = `${judge.prompt}\n\nProject to evaluate:\n`;
-                        const endPrompt = `\n\nPlease provide your evaluation in the following JSON format:
-                {
-                    "summary": "Your detailed analysis and reasoning",
-                    "score": <number from 1-10>,
-                    "likes": ["positive aspect 1", "positive aspect 2", ...],
-                    "dislikes": ["negative aspect 1", "negative aspect 2", ...]
-                }`;
-
-                        // Calculate available space for project data (8MB limit with safety margin)
-                        const maxPromptSize = 7.5 * 1024 * 1024; // 7.5MB safety margin
-                        const baseSize = basePrompt.length + endPrompt.length;
-                        const availableSize = maxPromptSize - baseSize;
-
-                        let truncatedProjectData = projectData;
-                        if (projectData.length > availableSize) {
-                            truncatedProjectData = projectData.substring(0, availableSize - 200) + '\n\n... [PROJECT DATA TRUNCATED DUE TO SIZE LIMITS] ...';
-                            console.log(`⚠️  Truncating project data from ${(projectData.length / 1024 / 1024).toFixed(2)}MB to ${(truncatedProjectData.length / 1024 / 1024).toFixed(2)}MB for judge ${judge.name}`);
-                        }
+        const completedProjects = grid.projects.filter(project =>
+            grid.judges.every(judge => {
+                const cell = grid.cells[`${project.id}::${judge.id}`];
+                return cell && (cell.state === 'done' || cell.state === 'failed');
+            })
+        ).length;
 
-                        const fullPrompt = basePrompt + truncatedProjectData + endPrompt;
-
-                        try {
-                            const response = await this.callClaudeAPI(fullPrompt);
-                            const evaluation = JSON.parse(response);
-
-                            // Validate evaluation structure and provide defaults
-                            return {
-                                judgeId: judge.id,
-                                judgeName: judge.name,
-                                summary: evaluation.summary || 'No summary provided',
-                                score: (evaluation.score >= 1 && evaluation.score <= 10) ? evaluation.score : 5,
-                                likes: Array.isArray(evaluation.likes) ? evaluation.likes : ['Evaluation completed'],
-                                dislikes: Array.isArray(evaluation.dislikes) ? evaluation.dislikes : []
-                            };
-                        } catch (error) {
-                            console.error(`❌ Error evaluating project ${project.name} with judge ${judge.name}:`, error);
-
-                            // Always provide a meaningful fallback evaluation
-                            return {
-                                judgeId: judge.id,
-                                judgeName: judge.name,
-                                summary: `Unable to complete detailed evaluation for ${project.name}. System encountered an error but judging process continued.`,
-                                score: 5, // Neutral score when evaluation fails
-                                likes: [
-                                    'Project was submitted for evaluation',
-                                    'File structure appears organized',
-                                    'Standard naming conventions observed'
-                                ],
-                                dislikes: [
-                                    'Could not perform detailed analysis due to system error',
-                                    'Limited technical assessment available',
-                                    'Manual review recommended for complete evaluation'
-                                ]
-                            };
-                        }
-                    });
+        this.setJudgingInProgress(true, `${grid.phase} (${completedProjects}/${grid.projects.length} projects done)`);
 
-                    projectEvaluation.judgeResults = await Promise.all(judgePromises);
-                    this.evaluations.push(projectEvaluation);
-
-                } catch (projectError) {
-                    console.error(`❌ Error processing project ${project.name}:`, projectError);
-
-                    // Add project with fallback evaluation
-                    const fallbackEvaluation: ProjectEvaluation = {
-                        projectName: project.name,
-                        judgeResults: this.judges.map(judge => ({
-                            judgeId: judge.id,
-                            judgeName: judge.name,
-                            summary: `Error processing project ${project.name}. Unable to complete evaluation.`,
-                            score: 3, // Low score for failed evaluation
-                            likes: ['Project was submitted'],
-                            dislikes: ['Evaluation failed due to processing error', 'Technical issues prevented analysis']
-                        }))
-                    };
-                    this.evaluations.push(fallbackEvaluation);
-                }
+        const renderCell = (cell?: JudgingStatusCell) => {
+            if (!cell || cell.state === 'pending') {
+                return '<td class="status-cell pending">⏳</td>';
             }
+            if (cell.state === 'running') {
+                return '<td class="status-cell running">🔄</td>';
+            }
+            if (cell.state === 'failed') {
+                return `<td class="status-cell failed" title="${(cell.error || 'Unknown error').replace(/"/g, '&quot;')}">❌ failed</td>`;
+            }
+            return `<td class="status-cell done">✅ ${cell.score}/10</td>`;
+        };
 
-            console.log(`🎯 Completed individual evaluations, starting master judge ranking`);
+        gridDiv.innerHTML = `
+            <table>
+                <thead>
+                    <tr>
+                        <th>Project</th>
+                        ${grid.judges.map(judge => `<th>${judge.name}</th>`).join('')}
+                    </tr>
+                </thead>
+                <tbody>
+                    ${grid.projects.map(project => `
+                        <tr>
+                            <td>${project.name}</td>
+                            ${grid.judges.map(judge => renderCell(grid.cells[`${project.id}::${judge.id}`])).join('')}
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    }
 
-            // Get final ranking from master judge with error handling
-            try {
-                await this.getFinalRanking();
-            } catch (masterError) {
-                console.error(`❌ Master judge failed, using fallback ranking:`, masterError);
-                // Fallback ranking already handled in getFinalRanking
-            }
+    private finishJudgingRun(run: JudgingRun): void {
+        localStorage.removeItem(this.ACTIVE_RUN_KEY);
+        this.setJudgingInProgress(false);
+
+        this.evaluations = run.evaluations;
+        this.comparisons = run.comparisons || [];
+        this.judgeDistributions = run.judgeDistributions || [];
+        this.runTracks = run.event?.tracks || [];
+        this.leaderboard = '';
+        this.awards = run.awards || [];
+
+        if (run.status === 'failed') {
+            this.showError(`Judging completed with errors: ${run.error || 'Unknown error'}. Results may be limited.`);
+        } else if (run.rankingErrors && run.rankingErrors.length > 0) {
+            this.showError(`The master judge's ranking stayed invalid after a retry, so some projects were placed by average score: ${run.rankingErrors.join('; ')}`);
+        } else {
+            console.log(`🏆 Judging run ${run.id} completed`);
+        }
 
-            console.log(`🏆 Judging process completed successfully`);
+        this.displayResults();
+        this.renderExportMenu(run.id);
+        this.loadUsageReport(run.id);
+    }
 
-        } catch (error) {
-            console.error(`❌ Critical error in judging process:`, error);
+    private renderExportMenu(runId: string): void {
+        const exportMenu = document.getElementById('exportMenu');
+        if (!exportMenu) return;
+
+        const exportUrl = `http://localhost:3001/api/judging-runs/${encodeURIComponent(runId)}/export`;
+        const feedbackUrl = `http://localhost:3001/api/feedback?runId=${encodeURIComponent(runId)}`;
+        exportMenu.innerHTML = `
+            <strong>📤 Export results:</strong>
+            <a class="btn" href="${exportUrl}?format=csv" download title="Rank, project, each judge's score and the average">CSV leaderboard</a>
+            <a class="btn" href="${exportUrl}?format=xlsx" download title="Leaderboard, one sheet per judge and the usage report">XLSX workbook</a>
+            <a class="btn" href="${exportUrl}?format=markdown" download title="Leaderboard, awards and every judge's feedback">Markdown report</a>
+            <a class="btn" href="${exportUrl}?format=json" download title="Every evaluation, in a versioned results file">JSON</a>
+            <a class="btn" href="${feedbackUrl}" download title="One feedback document per team: judges' scores and feedback, master judge reasoning and the files the judges saw">Team feedback (ZIP)</a>
+            <a class="btn" href="${feedbackUrl}&anonymize=true" download title="Team feedback without ranks or other teams' names">Team feedback without ranks (ZIP)</a>
+        `;
+        exportMenu.classList.remove('hidden');
+    }
 
-            // Ensure we have some evaluations even if everything fails
-            if (this.evaluations.length === 0 && this.projects.length > 0) {
-                this.evaluations = this.projects.map((project, index) => ({
-                    projectName: project.name,
-                    finalRank: index + 1,
-                    judgeResults: [{
-                        judgeId: 'fallback',
-                        judgeName: 'System Fallback',
-                        summary: 'Critical system error prevented normal evaluation. This is a placeholder result.',
-                        score: 5,
-                        likes: ['Project was submitted for evaluation'],
-                        dislikes: ['System error prevented detailed analysis']
-                    }]
-                }));
-            }
+    private renderContextManifest(manifest: ContextManifest): string {
+        const statusLabels: Record<ContextManifestEntry['status'], string> = {
+            included: '✅ included',
+            binary: '📎 binary (name only)',
+            elided: '✂️ elided',
+            outlined: '🧭 outline only',
+            summarized: '🧩 summarized in chunk notes',
+            dropped: '🚫 dropped (listed in map)'
+        };
 
-            this.showError('Judging completed with errors. Results may be limited.');
+        return `
+            <details class="context-manifest">
+                <summary>
+                    📦 Context: ${manifest.includedFiles} files included, ${manifest.elidedFiles} elided, ${manifest.outlinedFiles} outlined, ${manifest.summarizedFiles ? `${manifest.summarizedFiles} summarized, ` : ''}${manifest.droppedFiles} dropped
+                    (~${manifest.usedTokens.toLocaleString()} of ${manifest.budgetTokens.toLocaleString()} tokens for ${manifest.model}, ~${manifest.mapTokens.toLocaleString()} for the repository map)
+                </summary>
+                <ul>
+                    ${manifest.files.map(file => `
+                        <li>${statusLabels[file.status]} ${file.path}
+                            (~${file.tokens.toLocaleString()}${file.tokens !== file.originalTokens ? ` of ${file.originalTokens.toLocaleString()}` : ''} tokens${file.elidedLines ? `, ${file.elidedLines} lines elided` : ''})
+                        </li>
+                    `).join('')}
+                </ul>
+            </details>
+        `;
+    }
 
-        } finally {
-            // Always re-enable UI and show results
-            const startButton = document.getElementById('startJudging') as HTMLButtonElement;
-            const progressDiv = document.getElementById('judgingProgress');
+    private formatRankSource(source: NonNullable<ProjectEvaluation['rankSource']>): string {
+        const labels: Record<typeof source, string> = {
+            'master-judge': '🎯 master judge',
+            'master-judge-retry': '🔁 master judge (corrected)',
+            'master-judge-partial': '⚠️ master judge (invalid ranking, partly used)',
+            'fuzzy-match': '🔍 master judge (name matched approximately)',
+            'average-score': '📊 placed by average score',
+            'pairwise': '⚔️ pairwise tournament'
+        };
+        return labels[source];
+    }
 
-            if (startButton) startButton.disabled = false;
-            progressDiv?.classList.add('hidden');
+    /** Head-to-head decisions of the pairwise ranking that involve this project. */
+    private renderComparisons(projectId: string): string {
+        const comparisons = this.comparisons.filter(comparison => comparison.projectA === projectId || comparison.projectB === projectId);
+        if (comparisons.length === 0) return '';
+
+        const projectName = (id: string) => this.evaluations.find(evaluation => evaluation.projectId === id)?.projectName || id;
+        const outcome = (comparison: PairwiseComparison) => {
+            if (!comparison.winner) return `❌ failed: ${comparison.error || 'Unknown error'}`;
+            if (comparison.winner === 'tie') return '🤝 tie';
+            const winnerId = comparison.winner === 'A' ? comparison.projectA : comparison.projectB;
+            return winnerId === projectId ? '✅ won' : '❌ lost';
+        };
 
-            // Always display results, even if partial/fallback
-            this.displayResults();
-        }
+        return `
+            <details class="chunk-notes">
+                <summary>⚔️ Head-to-head: ${comparisons.length} comparisons</summary>
+                <ul>
+                    ${comparisons.map(comparison => `
+                        <li>
+                            Round ${comparison.round}: ${outcome(comparison)} vs ${projectName(comparison.projectA === projectId ? comparison.projectB : comparison.projectA)}
+                            (shown ${comparison.projectA === projectId ? 'first' : 'second'})${comparison.reasoning ? ` - ${comparison.reasoning}` : ''}
+                        </li>
+                    `).join('')}
+                </ul>
+            </details>
+        `;
     }
 
-    private async getFinalRanking(): Promise<void> {
-        const basePrompt = `You are the master judge for a hackathon. Below are the evaluations from individual judges for each project. Your task is to provide a final relative ranking of all projects based on these evaluations.
+    private renderChunkNotes(notes: ProjectChunkNotes): string {
+        const list = (items: string[]) => items.length > 0 ? `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>` : '<p>None noted</p>';
+
+        return `
+            <details class="chunk-notes">
+                <summary>🧩 Chunk notes: ${notes.chunks.length} chunks summarized (${this.formatUsage(notes.usage)})</summary>
+                ${notes.chunks.map(note => `
+                    <div class="chunk-note">
+                        <strong>Chunk ${note.index + 1}</strong> (~${note.tokens.toLocaleString()} tokens${note.model ? `, ${note.model}` : ''}): ${note.files.join(', ')}
+                        ${note.failed ? `<p>❌ Notes unavailable: ${note.error || 'Unknown error'}</p>` : `
+                            <p>${note.purpose}</p>
+                            <h5>Quality signals:</h5>
+                            ${list(note.qualitySignals)}
+                            <h5>Issues:</h5>
+                            ${list(note.issues)}
+                        `}
+                    </div>
+                `).join('')}
+            </details>
+        `;
+    }
 
-        Project Evaluations:`;
+    private renderTechnologies(technologies: DetectedTechnology[]): string {
+        return `
+            <details class="technology-usage">
+                <summary>🔍 Technologies: ${technologies.map(technology => this.escapeHtml(technology.name)).join(', ')}</summary>
+                ${technologies.map(technology => `
+                    <div class="technology-evidence">
+                        <strong>${this.escapeHtml(technology.name)}</strong> (${technology.evidenceCount} ${technology.evidenceCount === 1 ? 'place' : 'places'}${technology.evidenceCount > technology.evidence.length ? `, first ${technology.evidence.length} shown` : ''})
+                        <ul>
+                            ${technology.evidence.map(evidence => `<li><code>${this.escapeHtml(evidence.path)}:${evidence.line}</code> ${evidence.kind}: <code>${this.escapeHtml(evidence.text)}</code></li>`).join('')}
+                        </ul>
+                    </div>
+                `).join('')}
+            </details>
+        `;
+    }
 
-        const endPrompt = `
-        
-        Please provide a final ranking in JSON format:
-        {
-            "rankings": [
-                {"projectName": "Project Name", "rank": 1, "reasoning": "Why this project ranked here"},
-                ...
-            ]
-        }`;
-
-        const evaluationsText = this.evaluations.map(evaluation => `
-        Project: ${evaluation.projectName}
-        Judge Evaluations:
-        ${evaluation.judgeResults.map(result => `
-        - ${result.judgeName} (Score: ${result.score}/10)
-          Summary: ${result.summary}
-          Likes: ${result.likes.join(', ')}
-          Dislikes: ${result.dislikes.join(', ')}
-        `).join('\n')}
-        `).join('\n\n');
-
-        // Calculate available space and truncate if necessary
-        const maxPromptSize = 7.5 * 1024 * 1024; // 7.5MB safety margin
-        const baseSize = basePrompt.length + endPrompt.length;
-        const availableSize = maxPromptSize - baseSize;
-
-        let truncatedEvaluations = evaluationsText;
-        if (evaluationsText.length > availableSize) {
-            truncatedEvaluations = evaluationsText.substring(0, availableSize - 200) + '\n\n... [EVALUATIONS TRUNCATED DUE TO SIZE LIMITS] ...';
-            console.log(`⚠️  Truncating master judge evaluations from ${(evaluationsText.length / 1024 / 1024).toFixed(2)}MB to ${(truncatedEvaluations.length / 1024 / 1024).toFixed(2)}MB`);
-        }
-
-        const masterPrompt = basePrompt + truncatedEvaluations + endPrompt;
+    private formatUsage(usage: UsageTotals): string {
+        return `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out tokens · $${usage.costUsd.toFixed(4)}`;
+    }
+
+    private async loadUsageReport(runId: string): Promise<void> {
+        const usagePanel = document.getElementById('usagePanel');
+        if (!usagePanel) return;
 
         try {
-            const response = await this.callClaudeAPI(masterPrompt);
-            const masterEvaluation = JSON.parse(response);
-
-            // Validate master evaluation structure
-            if (masterEvaluation.rankings && Array.isArray(masterEvaluation.rankings)) {
-                // Apply final rankings
-                masterEvaluation.rankings.forEach((ranking: any) => {
-                    const evaluation = this.evaluations.find(evalItem => evalItem.projectName === ranking.projectName);
-                    if (evaluation && typeof ranking.rank === 'number') {
-                        evaluation.finalRank = ranking.rank;
-                    }
-                });
+            const usageUrl = `http://localhost:3001/api/judging-runs/${encodeURIComponent(runId)}/usage`;
+            const response = await fetch(usageUrl);
+            const data = await response.json() as UsageReportResponse;
 
-                // Sort evaluations by final rank
-                this.evaluations.sort((a, b) => (a.finalRank || 999) - (b.finalRank || 999));
-            } else {
-                throw new Error('Invalid master evaluation response structure');
+            if (!response.ok || !data.success || !data.report) {
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
             }
 
+            const rows = data.report.rows;
+            const total = rows.find(row => row.scope === 'run')?.usage;
+            const master = rows.find(row => row.scope === 'master-judge')?.usage;
+            const renderTable = (title: string, scopeRows: UsageReportRow[], label: (row: UsageReportRow) => string) => `
+                <h4>${title}</h4>
+                <table>
+                    <thead>
+                        <tr><th></th><th>Calls</th><th>Cached</th><th>Input tokens</th><th>Output tokens</th><th>Est. cost</th></tr>
+                    </thead>
+                    <tbody>
+                        ${scopeRows.map(row => `
+                            <tr>
+                                <td>${label(row)}</td>
+                                <td>${row.usage.calls}</td>
+                                <td>${row.usage.cachedCalls}</td>
+                                <td>${row.usage.inputTokens.toLocaleString()}</td>
+                                <td>${row.usage.outputTokens.toLocaleString()}</td>
+                                <td>$${row.usage.costUsd.toFixed(4)}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            `;
+
+            usagePanel.innerHTML = `
+                <h3>💰 Usage & Cost</h3>
+                ${total ? `<p><strong>Total:</strong> ${total.calls} calls (${total.cachedCalls} from cache) · ${this.formatUsage(total)}</p>` : ''}
+                ${master ? `<p><strong>Master judge:</strong> ${this.formatUsage(master)}</p>` : ''}
+                ${total && total.unpricedCalls > 0 ? `<p>⚠️ ${total.unpricedCalls} call(s) used models without a price and are not included in the cost.</p>` : ''}
+                ${renderTable('Per project', rows.filter(row => row.scope === 'project'), row => row.projectName || '')}
+                ${rows.some(row => row.scope === 'chunk-notes') ? renderTable('Chunk notes (map-reduce)', rows.filter(row => row.scope === 'chunk-notes'), row => row.projectName || '') : ''}
+                ${renderTable('Per judge', rows.filter(row => row.scope === 'judge'), row => row.judgeName || '')}
+                <a class="btn" href="${usageUrl}?format=csv" download>📥 Download usage CSV</a>
+            `;
+            usagePanel.classList.remove('hidden');
         } catch (error) {
-            console.error('❌ Error getting final ranking, using fallback ranking by average score:', error);
+            console.error('❌ Error loading usage report:', error);
+            usagePanel.classList.add('hidden');
+        }
+    }
 
-            // Robust fallback: rank by average score with proper error handling
-            try {
-                this.evaluations.forEach((evaluation, index) => {
-                    let avgScore = 5; // Default neutral score
+    private setJudgingInProgress(inProgress: boolean, message?: string): void {
+        const startButton = document.getElementById('startJudging') as HTMLButtonElement;
+        const progressDiv = document.getElementById('judgingProgress');
 
-                    if (evaluation.judgeResults && evaluation.judgeResults.length > 0) {
-                        const validScores = evaluation.judgeResults
-                            .map(result => result.score)
-                            .filter(score => typeof score === 'number' && score >= 1 && score <= 10);
+        if (startButton) startButton.disabled = inProgress;
 
-                        if (validScores.length > 0) {
-                            avgScore = validScores.reduce((sum, score) => sum + score, 0) / validScores.length;
-                        }
-                    }
+        if (inProgress) {
+            progressDiv?.classList.remove('hidden');
+            const progressText = document.getElementById('judgingStatusText');
+            if (progressText && message) {
+                progressText.textContent = message;
+            }
+        } else {
+            progressDiv?.classList.add('hidden');
+        }
+    }
 
-                    evaluation.finalRank = index + 1; // Will be re-sorted below
-                });
+    private renderAwards(): string {
+        const projectName = (id: string) => this.evaluations.find(evaluation => evaluation.projectId === id)?.projectName || id;
+
+        return `
+            <h3>🎖️ Awards</h3>
+            ${this.awards.map(award => `
+                <div class="award-result">
+                    <h4>${this.escapeHtml(award.awardName)}: ${award.winnerProjectName ? `🥇 ${this.escapeHtml(award.winnerProjectName)}` : '—'}</h4>
+                    <p class="score-spread">${award.method === 'judge-top-score' ? `Top score${award.judgeName ? ` of ${this.escapeHtml(award.judgeName)}` : ''}` : 'Decided by the master judge'} · ${award.eligibleProjectIds.length} eligible project${award.eligibleProjectIds.length === 1 ? '' : 's'}</p>
+                    ${award.error ? `<p class="close-call">❌ ${this.escapeHtml(award.error)}</p>` : ''}
+                    <p class="rank-reasoning">${this.escapeHtml(award.justification)}</p>
+                    ${award.runnersUp && award.runnersUp.length > 0 ? `<p class="score-spread">Runners-up: ${award.runnersUp.map(id => this.escapeHtml(projectName(id))).join(', ')}</p>` : ''}
+                </div>
+            `).join('')}
+        `;
+    }
 
-                // Sort by average score (highest first)
-                this.evaluations.sort((a, b) => {
-                    const getAvgScore = (evaluation: ProjectEvaluation) => {
-                        if (!evaluation.judgeResults || evaluation.judgeResults.length === 0) return 0;
-                        const validScores = evaluation.judgeResults
-                            .map(result => result.score)
-                            .filter(score => typeof score === 'number' && score >= 1 && score <= 10);
-                        return validScores.length > 0 ?
-                            validScores.reduce((sum, score) => sum + score, 0) / validScores.length : 0;
-                    };
-
-                    return getAvgScore(b) - getAvgScore(a);
-                });
+    private renderJudgeCalibration(): string {
+        const describe = (offset: number) => offset >= 0.5 ? '😊 lenient' : offset <= -0.5 ? '😠 harsh' : '⚖️ typical';
+
+        return `
+            <h3>🎚️ Judge Calibration</h3>
+            <table>
+                <thead>
+                    <tr><th>Judge</th><th>Projects</th><th>Mean</th><th>Median</th><th>Std. dev.</th><th>Range</th><th>vs. all judges</th></tr>
+                </thead>
+                <tbody>
+                    ${this.judgeDistributions.map(distribution => `
+                        <tr>
+                            <td>${distribution.judgeName}</td>
+                            <td>${distribution.count}</td>
+                            <td>${distribution.mean.toFixed(2)}</td>
+                            <td>${distribution.median.toFixed(1)}</td>
+                            <td>${distribution.stdDev.toFixed(2)}</td>
+                            <td>${distribution.min}–${distribution.max}</td>
+                            <td>${distribution.offset >= 0 ? '+' : ''}${distribution.offset.toFixed(2)} ${describe(distribution.offset)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `;
+    }
 
-                // Assign final ranks after sorting
-                this.evaluations.forEach((evaluation, index) => {
-                    evaluation.finalRank = index + 1;
-                });
+    private renderScoreSpread(stats: ScoreStats): string {
+        return `
+            <p class="score-spread">
+                📈 Median of ${stats.samples} samples (${stats.scores.join(', ')}) · mean ${stats.mean.toFixed(2)} ± ${stats.stdDev.toFixed(2)} · 95% interval ${stats.low.toFixed(1)}–${stats.high.toFixed(1)}${stats.failedSamples > 0 ? ` · ${stats.failedSamples} failed` : ''}
+            </p>
+        `;
+    }
 
-            } catch (fallbackError) {
-                console.error('❌ Even fallback ranking failed, using project order:', fallbackError);
-                // Final fallback: just number them in order
-                this.evaluations.forEach((evaluation, index) => {
-                    evaluation.finalRank = index + 1;
-                });
-            }
-        }
+    switchLeaderboard(trackId: string): void {
+        this.leaderboard = trackId;
+        this.displayResults();
     }
 
     private displayResults(): void {
@@ -1251,41 +2809,83 @@ class HackathonJudge {
 
             resultsSection.classList.remove('hidden');
 
-            finalRankings.innerHTML = this.evaluations.map(evaluation => {
+            // Each track with projects gets its own leaderboard next to the overall one
+            const tracks = this.runTracks.filter(track => this.evaluations.some(evaluation => evaluation.track === track.id));
+            const trackId = tracks.some(track => track.id === this.leaderboard) ? this.leaderboard : '';
+            const shown = trackId ?
+                this.evaluations.filter(evaluation => evaluation.track === trackId).sort((a, b) => (a.trackRank ?? Infinity) - (b.trackRank ?? Infinity)) :
+                this.evaluations;
+
+            const leaderboardTabs = document.getElementById('leaderboardTabs');
+            if (leaderboardTabs) {
+                leaderboardTabs.innerHTML = tracks.length > 0 ? [{ id: '', name: '🏆 Overall' }, ...tracks].map(track => `
+                    <button class="tab-btn${track.id === trackId ? ' active' : ''}" onclick="switchLeaderboard('${track.id.replace(/'/g, "\\'")}')">${this.escapeHtml(track.name)}</button>
+                `).join('') : '';
+                leaderboardTabs.classList.toggle('hidden', tracks.length === 0);
+            }
+
+            finalRankings.innerHTML = shown.map(evaluation => {
                 try {
-                    // Calculate average score with error handling
+                    // Calculate average score with error handling, from normalized scores when the run calibrated judges
+                    const average = (scores: number[]) => scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
                     let avgScore = 0;
+                    let rawAvgScore = 0;
+                    const normalized = (evaluation.judgeResults || []).some(result => typeof result.normalizedScore === 'number');
                     if (evaluation.judgeResults && evaluation.judgeResults.length > 0) {
-                        const validScores = evaluation.judgeResults
-                            .map(result => typeof result.score === 'number' ? result.score : 0)
-                            .filter(score => score > 0);
-                        avgScore = validScores.length > 0 ?
-                            validScores.reduce((sum, score) => sum + score, 0) / validScores.length : 0;
+                        const validResults = evaluation.judgeResults.filter(result => typeof result.score === 'number' && result.score > 0);
+                        rawAvgScore = average(validResults.map(result => result.score as number));
+                        avgScore = normalized ? average(validResults.map(result => result.normalizedScore ?? result.score as number)) : rawAvgScore;
                     }
+                    if (typeof evaluation.blendedScore === 'number') avgScore = evaluation.blendedScore;
 
                     const sanitizedProjectName = evaluation.projectName.replace(/['"]/g, '');
+                    const rank = trackId ? evaluation.trackRank : evaluation.finalRank;
+                    const rankReasoning = trackId ? evaluation.trackRankReasoning : evaluation.rankReasoning;
+                    const trackName = trackId ? undefined : this.getTrackName(evaluation.track, this.runTracks);
 
                     return `
                         <div class="result-item">
                             <div class="result-header" onclick="toggleResult('${sanitizedProjectName}')">
                                 <div>
-                                    <span class="rank-badge">#${evaluation.finalRank || '?'}</span>
+                                    <span class="rank-badge">#${rank || '?'}</span>
                                     <strong>${evaluation.projectName}</strong>
+                                    ${trackName ? `<span class="rank-confidence">🎯 ${trackName}${evaluation.trackRank ? ` #${evaluation.trackRank}` : ''}</span>` : ''}
+                                    ${trackId && evaluation.finalRank ? `<span class="rank-confidence">🏆 Overall #${evaluation.finalRank}</span>` : ''}
+                                    ${evaluation.rankSource ? `<span class="rank-confidence" title="How this rank was derived">${this.formatRankSource(evaluation.rankSource)}</span>` : ''}
+                                    ${typeof evaluation.rankConfidence === 'number' ? `<span class="rank-confidence">${Math.round(evaluation.rankConfidence * 100)}% rank confidence${typeof evaluation.rating === 'number' ? ` · rating ${evaluation.rating}` : ''}</span>` : ''}
+                                    ${typeof evaluation.humanScore === 'number' ? `<span class="rank-confidence" title="Average of the AI judges and of the human judges">🤖 AI ${typeof evaluation.aiScore === 'number' ? evaluation.aiScore.toFixed(1) : '—'} · 🧑 Human ${evaluation.humanScore.toFixed(1)}</span>` : ''}
+                                    ${evaluation.aiHumanDisagree ? `<span class="close-call disagreement" title="The AI and human averages are ${evaluation.disagreement} points apart">⚠️ AI and humans disagree</span>` : ''}
+                                    ${evaluation.tooCloseToCall && !trackId ? '<span class="close-call" title="Its score interval overlaps a neighbour across a prize boundary">⚖️ Too close to call</span>' : ''}
                                 </div>
-                                <div class="score">${avgScore.toFixed(1)}/10</div>
+                                <div class="score">${avgScore.toFixed(1)}/10${normalized ? ` <span class="score-spread">(raw ${rawAvgScore.toFixed(1)})</span>` : ''}${evaluation.scoreInterval && evaluation.scoreInterval.high > evaluation.scoreInterval.low ? ` <span class="score-spread">(${evaluation.scoreInterval.low.toFixed(1)}–${evaluation.scoreInterval.high.toFixed(1)})</span>` : ''}</div>
                             </div>
                             <div id="result-${sanitizedProjectName}" class="result-content">
+                                ${rankReasoning ? `<p class="rank-reasoning">🎯 Master judge: ${rankReasoning}</p>` : ''}
+                                ${evaluation.projectId ? this.renderComparisons(evaluation.projectId) : ''}
+                                ${evaluation.technologies && evaluation.technologies.length > 0 ? this.renderTechnologies(evaluation.technologies) : ''}
+                                ${evaluation.chunkNotes ? this.renderChunkNotes(evaluation.chunkNotes) : ''}
                                 ${evaluation.judgeResults && evaluation.judgeResults.length > 0 ? `
                                     <div class="tabs">
                                         ${evaluation.judgeResults.map((result, index) => `
                                             <div class="tab ${index === 0 ? 'active' : ''}" onclick="switchTab('${sanitizedProjectName}', ${index})">
-                                                ${result.judgeName || 'Unknown Judge'}
+                                                ${result.kind === 'human' ? '🧑 ' : ''}${result.judgeName || 'Unknown Judge'}
                                             </div>
                                         `).join('')}
                                     </div>
                                     ${evaluation.judgeResults.map((result, index) => `
                                         <div id="tab-${sanitizedProjectName}-${index}" class="tab-content ${index === 0 ? 'active' : ''}">
-                                            <h4>Score: ${result.score || 0}/10</h4>
+                                            <h4>${result.failed ? `❌ Evaluation failed: ${result.error || 'Unknown error'}` : `Score: ${result.score}/10${typeof result.normalizedScore === 'number' ? ` · normalized ${result.normalizedScore}/10` : ''}`}</h4>
+                                            ${result.scoreStats ? this.renderScoreSpread(result.scoreStats) : ''}
+                                            ${result.criteriaScores && result.criteriaScores.length > 0 ? `
+                                                <h5>Rubric Breakdown:</h5>
+                                                <ul>
+                                                    ${result.criteriaScores.map(criterion => `
+                                                        <li><strong>${criterion.criterionName}: ${criterion.score}/${criterion.maxPoints}</strong> - ${criterion.justification}</li>
+                                                    `).join('')}
+                                                </ul>
+                                            ` : ''}
+                                            ${result.usage ? `<p class="judge-usage">💰 ${this.formatUsage(result.usage)}</p>` : ''}
+                                            ${result.context ? this.renderContextManifest(result.context) : ''}
                                             <h5>Summary:</h5>
                                             <p>${result.summary || 'No summary available'}</p>
                                             <h5>Likes:</h5>
@@ -1321,7 +2921,19 @@ class HackathonJudge {
                 }
             }).join('');
 
-            console.log(`✅ Results displayed for ${this.evaluations.length} projects`);
+            const awardsSection = document.getElementById('awardsSection');
+            if (awardsSection) {
+                awardsSection.innerHTML = this.renderAwards();
+                awardsSection.classList.toggle('hidden', this.awards.length === 0);
+            }
+
+            const calibration = document.getElementById('judgeCalibration');
+            if (calibration) {
+                calibration.innerHTML = this.renderJudgeCalibration();
+                calibration.classList.toggle('hidden', this.judgeDistributions.length === 0);
+            }
+
+            console.log(`✅ Results displayed for ${shown.length} projects${trackId ? ` in track ${trackId}` : ''}`);
 
         } catch (error) {
             console.error('❌ Critical error in displayResults:', error);
@@ -1368,10 +2980,116 @@ function addCustomJudge(): void {
     hackathonJudge.addCustomJudge();
 }
 
+function switchLeaderboard(trackId: string): void {
+    hackathonJudge.switchLeaderboard(trackId);
+}
+
+function addAward(): void {
+    hackathonJudge.addAward().catch(error => {
+        console.error('❌ Adding the award failed:', error);
+    });
+}
+
+function removeAward(awardId: string): void {
+    hackathonJudge.removeAward(awardId).catch(error => {
+        console.error('❌ Removing the award failed:', error);
+    });
+}
+
+function saveTechnologySignatures(): void {
+    hackathonJudge.saveTechnologySignatures().catch(error => {
+        console.error('❌ Saving the technology signatures failed:', error);
+    });
+}
+
+function saveEventConfig(): void {
+    hackathonJudge.saveEventConfig().catch(error => {
+        console.error('❌ Saving the event failed:', error);
+    });
+}
+
+function saveJudgePanel(): void {
+    hackathonJudge.saveJudgePanel().catch(error => {
+        console.error('❌ Saving the judge panel failed:', error);
+    });
+}
+
+function loadJudgePanel(): void {
+    hackathonJudge.loadJudgePanel().catch(error => {
+        console.error('❌ Loading the judge panel failed:', error);
+    });
+}
+
+function exportJudgePanel(): void {
+    hackathonJudge.exportJudgePanel();
+}
+
+function importJudgePanel(): void {
+    hackathonJudge.importJudgePanel().catch(error => {
+        console.error('❌ Importing the judge panel failed:', error);
+    });
+}
+
+function submitHumanScore(): void {
+    hackathonJudge.submitHumanScore().catch(error => {
+        console.error('❌ Saving the human score failed:', error);
+    });
+}
+
+function importHumanScores(): void {
+    hackathonJudge.importHumanScores().catch(error => {
+        console.error('❌ Importing human scores failed:', error);
+    });
+}
+
 function removeJudge(judgeId: string): void {
     hackathonJudge.removeJudge(judgeId);
 }
 
+function editJudge(judgeId: string): void {
+    hackathonJudge.editJudge(judgeId);
+}
+
+function saveJudgeEdit(judgeId: string): void {
+    hackathonJudge.saveJudgeEdit(judgeId);
+}
+
+function cancelJudgeEdit(): void {
+    hackathonJudge.cancelJudgeEdit();
+}
+
+function duplicateJudge(judgeId: string): void {
+    hackathonJudge.duplicateJudge(judgeId);
+}
+
+function toggleJudge(judgeId: string): void {
+    hackathonJudge.toggleJudge(judgeId);
+}
+
+// Drag-to-reorder for judge cards
+let draggedJudgeId: string | null = null;
+
+function judgeDragStart(event: DragEvent, judgeId: string): void {
+    draggedJudgeId = judgeId;
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    (event.currentTarget as HTMLElement).classList.add('dragging');
+}
+
+function judgeDragOver(event: DragEvent): void {
+    if (draggedJudgeId) event.preventDefault();
+}
+
+function judgeDrop(event: DragEvent, targetId: string): void {
+    event.preventDefault();
+    if (draggedJudgeId) hackathonJudge.moveJudge(draggedJudgeId, targetId);
+    draggedJudgeId = null;
+}
+
+function judgeDragEnd(event: DragEvent): void {
+    draggedJudgeId = null;
+    (event.currentTarget as HTMLElement).classList.remove('dragging');
+}
+
 function startJudging(): void {
     console.log('🚀 startJudging() called');
     hackathonJudge.startJudging().catch(error => {
@@ -0,0 +1,164 @@
+import { AwardCategory, AwardMethod, AwardResult, CacheMode, ModelSettings, ProjectEvaluation } from './judging-types';
+import { ClaudeCaller, ClaudeTool, ContextLimitResolver } from './judging-pipeline';
+import { estimateTokens, SYSTEM_PROMPT_RESERVE_TOKENS, truncateToTokens } from './context-packer';
+import { emptyUsage, PriceTable } from './usage-accounting';
+import { getAverageScore } from './ranking-reconciliation';
+import { formatEvaluation } from './pairwise-ranking';
+
+export const AWARD_METHODS: AwardMethod[] = ['master-judge', 'judge-top-score'];
+
+const AWARD_TOOL_NAME = 'submit_award';
+
+/** Projects that may win the award, in the order of the overall ranking. */
+export function eligibleProjects(award: AwardCategory, evaluations: ProjectEvaluation[]): ProjectEvaluation[] {
+    return evaluations.filter(evaluation =>
+        (!award.tracks || award.tracks.length === 0 || (!!evaluation.track && award.tracks.includes(evaluation.track))) &&
+        (award.minScore === undefined || getAverageScore(evaluation) >= award.minScore) &&
+        (award.requiredTechnologies || []).every(technologyId =>
+            (evaluation.technologies || []).some(detected => detected.technologyId === technologyId))
+    );
+}
+
+/** Where the project uses the award's required technologies, so the master judge can weigh how deeply. */
+function formatTechnologyEvidence(award: AwardCategory, evaluation: ProjectEvaluation): string {
+    return (evaluation.technologies || [])
+        .filter(detected => (award.requiredTechnologies || []).includes(detected.technologyId))
+        .map(detected => `\nDetected ${detected.name} in ${detected.evidenceCount} places, e.g. ${detected.evidence.slice(0, 3).map(evidence => `${evidence.path}:${evidence.line}`).join(', ')}`)
+        .join('');
+}
+
+/**
+ * Decides special awards such as "Best UX" from the judges' existing
+ * evaluations, without evaluating the projects again.
+ */
+export class AwardJudge {
+    constructor(
+        private readonly callClaude: ClaudeCaller,
+        private readonly priceTable: PriceTable,
+        private readonly resolveContextLimits: ContextLimitResolver
+    ) {}
+
+    async decide(award: AwardCategory, evaluations: ProjectEvaluation[], seed: number, settings?: ModelSettings, cache?: CacheMode): Promise<AwardResult> {
+        const eligible = eligibleProjects(award, evaluations);
+        const result: AwardResult = {
+            awardId: award.id,
+            awardName: award.name,
+            method: award.method,
+            eligibleProjectIds: eligible.map(evaluation => evaluation.projectId),
+            justification: ''
+        };
+
+        if (eligible.length === 0) {
+            result.justification = 'No project was eligible for this award';
+            return result;
+        }
+
+        console.log(`🎖️  Deciding award ${award.name} among ${eligible.length} projects`);
+        return award.method === 'judge-top-score' ?
+            this.decideByTopScore(award, eligible, result) :
+            this.decideWithMasterJudge(award, eligible, result, seed, settings, cache);
+    }
+
+    /**
+     * The project the award's judge scored highest wins. Ties go to the
+     * project with the better average score across all judges.
+     */
+    private decideByTopScore(award: AwardCategory, eligible: ProjectEvaluation[], result: AwardResult): AwardResult {
+        const scored = eligible
+            .map(evaluation => ({ evaluation, judgeResult: evaluation.judgeResults.find(candidate => candidate.judgeId === award.judgeId) }))
+            .filter(entry => entry.judgeResult && !entry.judgeResult.failed && typeof entry.judgeResult.score === 'number')
+            .map(entry => ({ ...entry, score: entry.judgeResult!.normalizedScore ?? entry.judgeResult!.score as number }))
+            .sort((a, b) => b.score - a.score || getAverageScore(b.evaluation) - getAverageScore(a.evaluation));
+
+        if (scored.length === 0) {
+            result.error = `Judge ${award.judgeId} has no successful evaluation of an eligible project`;
+            result.justification = 'The award could not be decided';
+            return result;
+        }
+
+        const [winner] = scored;
+        const tied = scored.filter(entry => entry !== winner && entry.score === winner.score).map(entry => entry.evaluation.projectName);
+        result.winnerProjectId = winner.evaluation.projectId;
+        result.winnerProjectName = winner.evaluation.projectName;
+        result.judgeName = winner.judgeResult!.judgeName;
+        result.justification = `${winner.judgeResult!.judgeName} gave it the highest score, ${winner.score}/10${tied.length > 0 ? ` (tied with ${tied.join(', ')}; the better average score decided)` : ''}. ${winner.judgeResult!.summary}`;
+        return result;
+    }
+
+    private async decideWithMasterJudge(
+        award: AwardCategory,
+        eligible: ProjectEvaluation[],
+        result: AwardResult,
+        seed: number,
+        settings?: ModelSettings,
+        cache?: CacheMode
+    ): Promise<AwardResult> {
+        const tool = this.buildAwardTool(eligible);
+        const basePrompt = `You are the master judge for a hackathon, deciding the special award "${award.name}". The award criteria:
+
+${award.criteria}
+
+Below are the individual judges' evaluations of every eligible project. Choose the project that best meets the award criteria. Judge only by these criteria: a project's overall score or rank matters only as far as it reflects them.
+
+Eligible projects:`;
+        const endPrompt = `\n\nSubmit the winner by calling the ${AWARD_TOOL_NAME} tool.`;
+
+        const limits = this.resolveContextLimits(settings || {});
+        const availableTokens = limits.contextWindow - limits.maxOutputTokens - SYSTEM_PROMPT_RESERVE_TOKENS -
+            estimateTokens(basePrompt + endPrompt + JSON.stringify(tool) + (settings?.systemPrompt || ''));
+        const evaluationsText = truncateToTokens(
+            eligible.map(evaluation => `\n\nProject ID: ${evaluation.projectId}${formatTechnologyEvidence(award, evaluation)}\n${formatEvaluation(evaluation)}`).join(''),
+            Math.max(0, availableTokens),
+            '\n\n... [EVALUATIONS TRUNCATED TO FIT THE CONTEXT WINDOW] ...'
+        );
+
+        const usage = emptyUsage();
+        result.usage = usage;
+
+        try {
+            const response = await this.callClaude({ messages: [{ role: 'user', content: basePrompt + evaluationsText + endPrompt }], seed, tool, settings, cache });
+            this.priceTable.record(usage, response);
+
+            const input = response.toolUse?.input;
+            const winner = eligible.find(evaluation => evaluation.projectId === input?.winnerProjectId);
+            if (!winner) {
+                throw new Error(`No eligible winner was submitted with the ${AWARD_TOOL_NAME} tool`);
+            }
+
+            result.winnerProjectId = winner.projectId;
+            result.winnerProjectName = winner.projectName;
+            result.justification = typeof input.justification === 'string' ? input.justification : '';
+            result.runnersUp = Array.isArray(input.runnersUp) ?
+                input.runnersUp.filter((id: unknown) => id !== winner.projectId && eligible.some(evaluation => evaluation.projectId === id)) :
+                undefined;
+        } catch (error) {
+            console.error(`❌ Error deciding award ${award.name}:`, error);
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+            result.justification = 'The award could not be decided';
+        }
+
+        return result;
+    }
+
+    private buildAwardTool(eligible: ProjectEvaluation[]): ClaudeTool {
+        const projectIds = eligible.map(evaluation => evaluation.projectId);
+        return {
+            name: AWARD_TOOL_NAME,
+            description: 'Submit the winner of the hackathon award',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    winnerProjectId: { type: 'string', enum: projectIds, description: 'ID of the winning project' },
+                    justification: { type: 'string', description: 'Why this project best meets the award criteria' },
+                    runnersUp: {
+                        type: 'array',
+                        items: { type: 'string', enum: projectIds },
+                        maxItems: 2,
+                        description: 'IDs of up to two runners-up, best first'
+                    }
+                },
+                required: ['winnerProjectId', 'justification']
+            }
+        };
+    }
+}
@@ -0,0 +1,108 @@
+import { CacheMode, ChunkNote, MapReduceSettings, ModelSettings, ProjectChunkNotes, StoredProject, UsageTotals } from './judging-types';
+import { ClaudeCaller, ClaudeTool, ContextLimitResolver } from './judging-pipeline';
+import { chunkProject, estimateTokens, ProjectChunk, SYSTEM_PROMPT_RESERVE_TOKENS } from './context-packer';
+import { emptyUsage, PriceTable } from './usage-accounting';
+
+export const DEFAULT_CHUNK_TOKENS = 20000;
+
+// Smaller chunks cost more calls than they save in focus
+export const MIN_CHUNK_TOKENS = 1000;
+
+const CHUNK_NOTES_TOOL_NAME = 'submit_chunk_notes';
+
+const CHUNK_NOTES_PROMPT = `You are helping hackathon judges review a submission that is too large to read in one go. Below is one chunk of its source files.
+
+Write concise, factual notes for the judges, who will score the project from your notes without seeing this code:
+- purpose: what the code in this chunk does and how it fits the project
+- qualitySignals: evidence of quality, such as structure, tests, error handling and documentation
+- issues: notable problems, such as bugs, security issues, unfinished code or copied boilerplate
+
+Do not score the project.`;
+
+const CHUNK_NOTES_TOOL: ClaudeTool = {
+    name: CHUNK_NOTES_TOOL_NAME,
+    description: 'Submit the notes for this chunk of the project',
+    input_schema: {
+        type: 'object',
+        properties: {
+            purpose: { type: 'string', description: 'What the code in this chunk does' },
+            qualitySignals: { type: 'array', items: { type: 'string' }, description: 'Signals of code quality' },
+            issues: { type: 'array', items: { type: 'string' }, description: 'Notable issues' }
+        },
+        required: ['purpose', 'qualitySignals', 'issues']
+    }
+};
+
+/**
+ * Map step of map-reduce mode: splits a project into chunks and has a cheap
+ * model write structured notes for each one. A failed chunk is recorded on
+ * its note, so judges still get the notes of every other chunk.
+ */
+export class ChunkNoteWriter {
+    constructor(
+        private readonly callClaude: ClaudeCaller,
+        private readonly priceTable: PriceTable,
+        private readonly resolveContextLimits: ContextLimitResolver
+    ) {}
+
+    async writeNotes(project: StoredProject, settings: MapReduceSettings, seed: number, cache?: CacheMode): Promise<ProjectChunkNotes> {
+        const modelSettings: ModelSettings = {
+            model: settings.model,
+            temperature: settings.temperature,
+            maxTokens: settings.maxTokens,
+            systemPrompt: settings.systemPrompt
+        };
+
+        // A chunk has to fit the notes model's window next to the prompt and the answer
+        const limits = this.resolveContextLimits(modelSettings);
+        const maxChunkTokens = limits.contextWindow - limits.maxOutputTokens - SYSTEM_PROMPT_RESERVE_TOKENS -
+            estimateTokens(CHUNK_NOTES_PROMPT + JSON.stringify(CHUNK_NOTES_TOOL) + (settings.systemPrompt || '')) - 100;
+        const chunkTokens = Math.max(MIN_CHUNK_TOKENS, Math.min(settings.chunkTokens || DEFAULT_CHUNK_TOKENS, maxChunkTokens));
+
+        const chunks = chunkProject(project, chunkTokens);
+        const usage = emptyUsage();
+        console.log(`🧩 Writing notes for ${project.name}: ${chunks.length} chunks of up to ${chunkTokens} tokens with ${limits.model}`);
+
+        const notes = await Promise.all(
+            chunks.map((chunk, index) => this.writeChunkNote(project, chunk, index, chunks.length, modelSettings, seed, usage, cache))
+        );
+
+        return { chunks: notes, usage };
+    }
+
+    private async writeChunkNote(
+        project: StoredProject,
+        chunk: ProjectChunk,
+        index: number,
+        total: number,
+        settings: ModelSettings,
+        seed: number,
+        usage: UsageTotals,
+        cache?: CacheMode
+    ): Promise<ChunkNote> {
+        const note: ChunkNote = { index, files: chunk.files, tokens: chunk.tokens, purpose: '', qualitySignals: [], issues: [] };
+        const prompt = `${CHUNK_NOTES_PROMPT}\n\nProject: ${project.name} (chunk ${index + 1} of ${total})\n\n${chunk.text}Submit your notes by calling the ${CHUNK_NOTES_TOOL_NAME} tool.`;
+
+        try {
+            const response = await this.callClaude({ messages: [{ role: 'user', content: prompt }], seed, tool: CHUNK_NOTES_TOOL, settings, cache });
+            this.priceTable.record(usage, response);
+            note.model = response.model;
+
+            const input = response.toolUse?.input;
+            if (!input || typeof input.purpose !== 'string' || !input.purpose.trim()) {
+                throw new Error(`No notes were submitted with the ${CHUNK_NOTES_TOOL_NAME} tool`);
+            }
+
+            const toStrings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+            note.purpose = input.purpose;
+            note.qualitySignals = toStrings(input.qualitySignals);
+            note.issues = toStrings(input.issues);
+        } catch (error) {
+            console.error(`❌ Error writing notes for chunk ${index + 1} of ${project.name}:`, error);
+            note.failed = true;
+            note.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        return note;
+    }
+}
@@ -0,0 +1,270 @@
+// Retry, rate limiting, circuit breaking and model failover for Claude calls
+
+import { APIConnectionError } from '@anthropic-ai/sdk';
+
+export interface ResilienceOptions {
+    maxRetries: number; // Retries per model after the first attempt
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxConcurrency: number;
+    circuitFailureThreshold: number; // Consecutive failed calls before a model's circuit opens
+    circuitResetMs: number; // How long an open circuit rejects calls before a trial call
+    fallbackModels: string[]; // Tried in order once the primary model gives up
+}
+
+export interface CallAttempt {
+    model: string;
+    attempt: number;
+    startedAt: string;
+    durationMs: number;
+    outcome: 'success' | 'error' | 'circuit-open';
+    status?: number;
+    error?: string;
+    retryInMs?: number;
+}
+
+export interface ResilientResult<T> {
+    result: T;
+    model: string;
+    attempts: CallAttempt[];
+}
+
+/**
+ * Thrown once every model has failed. Carries the full attempt history so
+ * callers can report what was tried.
+ */
+export class ClaudeCallError extends Error {
+    constructor(message: string, readonly attempts: CallAttempt[], readonly status?: number) {
+        super(message);
+        this.name = 'ClaudeCallError';
+    }
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    maxConcurrency: 4,
+    circuitFailureThreshold: 5,
+    circuitResetMs: 60000,
+    fallbackModels: []
+};
+
+// Socket-level failures that another attempt can get past
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+class ConcurrencyLimiter {
+    private active = 0;
+    private readonly waiting: Array<() => void> = [];
+
+    constructor(private readonly limit: number) {}
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+
+        this.active++;
+        try {
+            return await task();
+        } finally {
+            this.active--;
+            this.waiting.shift()?.();
+        }
+    }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private state: CircuitState = 'closed';
+
+    constructor(private readonly threshold: number, private readonly resetMs: number) {}
+
+    getState(): CircuitState {
+        return this.state;
+    }
+
+    /**
+     * Closed circuits allow calls. Once resetMs has passed, an open circuit
+     * turns half-open and admits a single trial call; everyone else is
+     * rejected until that call's outcome closes or re-opens the circuit.
+     */
+    canAttempt(): boolean {
+        if (this.state === 'closed') return true;
+        if (this.state === 'half-open') return false;
+        if (Date.now() - this.openedAt < this.resetMs) return false;
+
+        this.state = 'half-open';
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.state = 'closed';
+    }
+
+    /** Gives up a half-open trial whose outcome says nothing about the model, so the next caller can probe. */
+    releaseTrial(): void {
+        if (this.state === 'half-open') this.state = 'open';
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.threshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+export class ResilientCaller {
+    private readonly options: ResilienceOptions;
+    private readonly limiter: ConcurrencyLimiter;
+    private readonly breakers = new Map<string, CircuitBreaker>();
+
+    constructor(options: Partial<ResilienceOptions> = {}) {
+        this.options = { ...DEFAULT_RESILIENCE_OPTIONS, ...options };
+        this.limiter = new ConcurrencyLimiter(Math.max(1, this.options.maxConcurrency));
+    }
+
+    /**
+     * Calls send with the primary model, retrying transient failures with
+     * exponential backoff, then moves down the fallback list.
+     */
+    async execute<T>(primaryModel: string, send: (model: string) => Promise<T>): Promise<ResilientResult<T>> {
+        const models = [primaryModel, ...this.options.fallbackModels.filter(model => model !== primaryModel)];
+        const attempts: CallAttempt[] = [];
+        let lastError: unknown;
+
+        for (const model of models) {
+            const breaker = this.getBreaker(model);
+
+            if (!breaker.canAttempt()) {
+                console.log(`⛔ Circuit open for ${model}, skipping`);
+                attempts.push({
+                    model,
+                    attempt: 0,
+                    startedAt: new Date().toISOString(),
+                    durationMs: 0,
+                    outcome: 'circuit-open'
+                });
+                continue;
+            }
+
+            for (let attempt = 1; attempt <= this.options.maxRetries + 1; attempt++) {
+                const startTime = Date.now();
+                const record: CallAttempt = {
+                    model,
+                    attempt,
+                    startedAt: new Date(startTime).toISOString(),
+                    durationMs: 0,
+                    outcome: 'success'
+                };
+                attempts.push(record);
+
+                try {
+                    const result = await this.limiter.run(() => send(model));
+                    record.durationMs = Date.now() - startTime;
+                    breaker.recordSuccess();
+                    return { result, model, attempts };
+                } catch (error) {
+                    lastError = error;
+                    record.durationMs = Date.now() - startTime;
+                    record.outcome = 'error';
+                    record.status = this.getStatus(error);
+                    record.error = error instanceof Error ? error.message : String(error);
+
+                    if (!this.isRetryable(error)) {
+                        // The model answered, so it's reachable; bad requests fail the same way on every model.
+                        // Errors without a response are local bugs that say nothing about the model.
+                        if (record.status !== undefined) breaker.recordSuccess();
+                        else breaker.releaseTrial();
+                        throw new ClaudeCallError(record.error, attempts, record.status);
+                    }
+
+                    if (attempt > this.options.maxRetries) {
+                        break;
+                    }
+
+                    record.retryInMs = this.getRetryDelay(error, attempt);
+                    console.log(`🔁 Claude call to ${model} failed (${record.status || 'network'}), retry ${attempt}/${this.options.maxRetries} in ${record.retryInMs}ms`);
+                    await new Promise(resolve => setTimeout(resolve, record.retryInMs));
+                }
+            }
+
+            breaker.recordFailure();
+            console.log(`⚠️  Giving up on ${model} after ${this.options.maxRetries + 1} attempts`);
+        }
+
+        const message = lastError instanceof Error ? lastError.message : 'All models are unavailable';
+        throw new ClaudeCallError(`Claude call failed after ${attempts.length} attempts: ${message}`, attempts, this.getStatus(lastError));
+    }
+
+    private getBreaker(model: string): CircuitBreaker {
+        let breaker = this.breakers.get(model);
+        if (!breaker) {
+            breaker = new CircuitBreaker(this.options.circuitFailureThreshold, this.options.circuitResetMs);
+            this.breakers.set(model, breaker);
+        }
+        return breaker;
+    }
+
+    private getStatus(error: unknown): number | undefined {
+        const status = (error as { status?: unknown })?.status;
+        return typeof status === 'number' ? status : undefined;
+    }
+
+    private isRetryable(error: unknown): boolean {
+        const status = this.getStatus(error);
+
+        // Without a status only connection failures and timeouts are transient; anything else is a bug in the call
+        if (status === undefined) return this.isNetworkError(error);
+
+        // 404 usually means the model isn't available, which a fallback model can fix
+        return status === 404 || status === 408 || status === 409 || status === 429 || status >= 500;
+    }
+
+    private isNetworkError(error: unknown): boolean {
+        if (error instanceof APIConnectionError) return true;
+
+        // Node and fetch put the socket error's code on the error or on its cause
+        const code = (error as { code?: unknown })?.code ?? (error as { cause?: { code?: unknown } })?.cause?.code;
+        return typeof code === 'string' && NETWORK_ERROR_CODES.includes(code);
+    }
+
+    /** Full-jitter exponential backoff, overridden by the server's retry-after when present. */
+    private getRetryDelay(error: unknown, attempt: number): number {
+        const retryAfterMs = this.getRetryAfterMs(error);
+        if (retryAfterMs !== undefined) {
+            return Math.min(retryAfterMs, this.options.maxDelayMs);
+        }
+
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt - 1));
+        return Math.round(Math.random() * ceiling);
+    }
+
+    private getRetryAfterMs(error: unknown): number | undefined {
+        const headers = (error as { headers?: { get?: (name: string) => string | null } })?.headers;
+        if (!headers || typeof headers.get !== 'function') return undefined;
+
+        const retryAfterMs = Number(headers.get('retry-after-ms'));
+        if (headers.get('retry-after-ms') && !isNaN(retryAfterMs)) {
+            return retryAfterMs;
+        }
+
+        const retryAfter = headers.get('retry-after');
+        if (!retryAfter) return undefined;
+
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+
+        // HTTP date form
+        const date = Date.parse(retryAfter);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+}
@@ -0,0 +1,371 @@
+import { ChunkNote, ContextManifest, ContextManifestEntry, ProjectChunkNotes, ProjectFile, StoredProject } from './judging-types';
+import { buildRepoMap, outlineFile } from './repo-map';
+
+// Conservative estimate: source code averages fewer characters per token than prose
+const CHARS_PER_TOKEN = 3;
+
+// A single file may use at most this share of the budget, so one huge file can't crowd out the rest
+const MAX_FILE_SHARE = 0.25;
+
+// Elided files keep at least this many tokens, otherwise they are outlined or dropped
+const MIN_ELIDED_TOKENS = 200;
+
+// The repository map may use at most this share of the budget before it is truncated
+const MAX_MAP_SHARE = 0.2;
+
+// Left out of every prompt budget for the server's default system prompt and the message framing
+export const SYSTEM_PROMPT_RESERVE_TOKENS = 200;
+
+export interface PackedProject {
+    text: string;
+    manifest: ContextManifest;
+}
+
+export interface ProjectChunk {
+    files: string[]; // Paths, with line ranges for files split across chunks
+    text: string;
+    tokens: number;
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function truncateToTokens(text: string, tokens: number, marker: string): string {
+    const maxChars = tokens * CHARS_PER_TOKEN;
+    if (text.length <= maxChars) return text;
+    return text.substring(0, Math.max(0, maxChars - marker.length)) + marker;
+}
+
+function isTextContent(file: ProjectFile): boolean {
+    return file.type.startsWith('text/') ||
+        file.type === 'application/json' ||
+        file.name.endsWith('.js') ||
+        file.name.endsWith('.ts') ||
+        file.name.endsWith('.py') ||
+        file.name.endsWith('.html') ||
+        file.name.endsWith('.css') ||
+        file.name.endsWith('.md');
+}
+
+// Prioritize important files (README, main files, config files)
+function getPriority(filename: string): number {
+    const name = filename.toLowerCase();
+    if (name.includes('readme')) return 1;
+    if (name.includes('main') || name.includes('index')) return 2;
+    if (name.includes('config') || name.includes('package.json')) return 3;
+    if (name.endsWith('.md')) return 4;
+    if (name.endsWith('.py') || name.endsWith('.js') || name.endsWith('.ts')) return 5;
+    return 10;
+}
+
+/**
+ * Keeps the start and the end of a file, replacing whole lines in the middle
+ * with a marker so the result fits in the given number of tokens.
+ */
+function elide(content: string, tokens: number): { content: string; elidedLines: number } {
+    const lines = content.split('\n');
+    const budgetChars = tokens * CHARS_PER_TOKEN - 80; // Room for the marker
+    const headChars = Math.floor(budgetChars * 2 / 3);
+    const tailChars = budgetChars - headChars;
+
+    const head: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+        if (used + line.length + 1 > headChars) break;
+        head.push(line);
+        used += line.length + 1;
+    }
+
+    const tail: string[] = [];
+    used = 0;
+    for (let index = lines.length - 1; index >= head.length; index--) {
+        if (used + lines[index].length + 1 > tailChars) break;
+        tail.unshift(lines[index]);
+        used += lines[index].length + 1;
+    }
+
+    const elidedLines = lines.length - head.length - tail.length;
+    return {
+        content: [...head, `... [${elidedLines} lines elided to fit the context budget] ...`, ...tail].join('\n'),
+        elidedLines
+    };
+}
+
+/**
+ * Lists the declarations of a file's exported functions and classes, so an
+ * oversized file is still represented when its contents don't fit.
+ */
+function outline(file: ProjectFile): string {
+    const symbols = outlineFile(file);
+    if (symbols.length === 0) return '';
+    return `[Outline: ${symbols.length} declarations]\n${symbols.map(symbol => symbol.signature).join('\n')}\n\n`;
+}
+
+function buildMapSection(project: StoredProject, availableTokens: number): string {
+    return truncateToTokens(
+        `${buildRepoMap(project.files)}\n\n`,
+        Math.floor(availableTokens * MAX_MAP_SHARE),
+        '\n... [repository map truncated to fit the context budget] ...\n\n'
+    );
+}
+
+/**
+ * Packs a project's files into a token budget. A repository map of every
+ * file always leads, so judges know what exists even when its contents did
+ * not fit. Files are then visited in a fixed order (priority, then path), so
+ * the same project and budget always give the same result. Files over their
+ * share of the budget are elided; files that no longer fit are elided to the
+ * remaining space, reduced to their outline, or dropped. The manifest
+ * records exactly what the judge saw.
+ */
+export function packProject(project: StoredProject, budgetTokens: number, model: string, contextWindow: number): PackedProject {
+    const header = `Project: ${project.name}\n\n`;
+    const files: ContextManifestEntry[] = [];
+
+    // Room for the dropped-files note at the end
+    const available = Math.max(0, budgetTokens - 100);
+
+    const mapSection = buildMapSection(project, available);
+    const mapTokens = estimateTokens(mapSection);
+    const contentsHeader = 'Files and Contents:\n\n';
+    const sections: string[] = [header, mapSection, contentsHeader];
+    let usedTokens = estimateTokens(header) + mapTokens + estimateTokens(contentsHeader);
+
+    const maxFileTokens = Math.max(MIN_ELIDED_TOKENS, Math.floor(available * MAX_FILE_SHARE));
+
+    const sortedFiles = [...project.files].sort((a, b) => {
+        const priority = getPriority(a.name) - getPriority(b.name);
+        if (priority !== 0) return priority;
+        return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+    });
+
+    for (const file of sortedFiles) {
+        const fileHeader = `--- ${file.name} (${file.type}) ---\n`;
+
+        if (!isTextContent(file)) {
+            const section = `${fileHeader}[Binary file - ${file.type}, ${file.size} bytes]\n\n`;
+            const tokens = estimateTokens(section);
+            if (usedTokens + tokens > available) {
+                files.push({ path: file.path, status: 'dropped', tokens: 0, originalTokens: tokens });
+                continue;
+            }
+            sections.push(section);
+            usedTokens += tokens;
+            files.push({ path: file.path, status: 'binary', tokens, originalTokens: tokens });
+            continue;
+        }
+
+        const fullSection = `${fileHeader}${file.content}\n\n`;
+        const originalTokens = estimateTokens(fullSection);
+        const allowedTokens = Math.min(maxFileTokens, available - usedTokens);
+
+        if (originalTokens <= allowedTokens) {
+            sections.push(fullSection);
+            usedTokens += originalTokens;
+            files.push({ path: file.path, status: 'included', tokens: originalTokens, originalTokens });
+            continue;
+        }
+
+        // Oversized files lead with their outline, then as much of the content as still fits
+        const fileOutline = outline(file);
+        const contentTokens = allowedTokens - estimateTokens(fileHeader + fileOutline) - 1;
+        if (contentTokens < MIN_ELIDED_TOKENS) {
+            const outlineSection = `${fileHeader}${fileOutline}`;
+            const outlineTokens = estimateTokens(outlineSection);
+            if (fileOutline && outlineTokens <= allowedTokens) {
+                sections.push(outlineSection);
+                usedTokens += outlineTokens;
+                files.push({ path: file.path, status: 'outlined', tokens: outlineTokens, originalTokens });
+            } else {
+                files.push({ path: file.path, status: 'dropped', tokens: 0, originalTokens });
+            }
+            continue;
+        }
+
+        const elided = elide(file.content, contentTokens);
+        const section = `${fileHeader}${fileOutline}${elided.content}\n\n`;
+        const tokens = estimateTokens(section);
+        sections.push(section);
+        usedTokens += tokens;
+        files.push({ path: file.path, status: 'elided', tokens, originalTokens, elidedLines: elided.elidedLines });
+    }
+
+    const droppedFiles = files.filter(entry => entry.status === 'dropped').length;
+    if (droppedFiles > 0) {
+        const note = `\n... [${droppedFiles} files not included to fit the context budget; see the repository map] ...\n`;
+        sections.push(note);
+        usedTokens += estimateTokens(note);
+    }
+
+    return {
+        text: sections.join(''),
+        manifest: {
+            model,
+            contextWindow,
+            budgetTokens,
+            usedTokens,
+            mapTokens,
+            includedFiles: files.filter(entry => entry.status === 'included' || entry.status === 'binary').length,
+            elidedFiles: files.filter(entry => entry.status === 'elided').length,
+            outlinedFiles: files.filter(entry => entry.status === 'outlined').length,
+            droppedFiles,
+            files
+        }
+    };
+}
+
+/**
+ * Splits a project's text files into chunks of about chunkTokens for
+ * map-reduce mode. Files stay in path order so neighbouring files share a
+ * chunk; files larger than a chunk are split on line boundaries.
+ */
+export function chunkProject(project: StoredProject, chunkTokens: number): ProjectChunk[] {
+    const chunks: ProjectChunk[] = [];
+    let current: ProjectChunk = { files: [], text: '', tokens: 0 };
+    const maxContentChars = Math.max(1, chunkTokens - 50) * CHARS_PER_TOKEN; // Room for the file header
+
+    const addSection = (label: string, content: string) => {
+        const section = `--- ${label} ---\n${content}\n\n`;
+        const tokens = estimateTokens(section);
+        if (current.files.length > 0 && current.tokens + tokens > chunkTokens) {
+            chunks.push(current);
+            current = { files: [], text: '', tokens: 0 };
+        }
+        current.files.push(label);
+        current.text += section;
+        current.tokens += tokens;
+    };
+
+    const sortedFiles = project.files
+        .filter(isTextContent)
+        .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    for (const file of sortedFiles) {
+        if (file.content.length <= maxContentChars) {
+            addSection(file.path, file.content);
+            continue;
+        }
+
+        const lines = file.content.split('\n');
+        let start = 0;
+        while (start < lines.length) {
+            let end = start;
+            let chars = 0;
+            while (end < lines.length && (end === start || chars + lines[end].length + 1 <= maxContentChars)) {
+                chars += lines[end].length + 1;
+                end++;
+            }
+
+            const part = truncateToTokens(lines.slice(start, end).join('\n'), maxContentChars / CHARS_PER_TOKEN, ' ... [line truncated]');
+            addSection(`${file.path} (lines ${start + 1}-${end})`, part);
+            start = end;
+        }
+    }
+
+    if (current.files.length > 0) {
+        chunks.push(current);
+    }
+
+    return chunks;
+}
+
+function formatChunkNote(note: ChunkNote): string {
+    const header = `--- Chunk ${note.index + 1}: ${note.files.join(', ')} ---\n`;
+    if (note.failed) {
+        return `${header}[Notes unavailable: ${note.error || 'Unknown error'}]\n\n`;
+    }
+
+    const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None noted';
+    return `${header}Purpose: ${note.purpose}\nQuality signals:\n${list(note.qualitySignals)}\nIssues:\n${list(note.issues)}\n\n`;
+}
+
+/**
+ * Packs a project for map-reduce mode: the repository map and README files
+ * as in packProject, followed by the chunk notes in place of the source.
+ */
+export function packProjectNotes(project: StoredProject, notes: ProjectChunkNotes, budgetTokens: number, model: string, contextWindow: number): PackedProject {
+    const header = `Project: ${project.name}\n\n`;
+    const files: ContextManifestEntry[] = [];
+    const available = Math.max(0, budgetTokens - 100);
+
+    const mapSection = buildMapSection(project, available);
+    const mapTokens = estimateTokens(mapSection);
+    const sections: string[] = [header, mapSection];
+    let usedTokens = estimateTokens(header) + mapTokens;
+
+    const maxFileTokens = Math.max(MIN_ELIDED_TOKENS, Math.floor(available * MAX_FILE_SHARE));
+
+    for (const file of project.files) {
+        const fileHeader = `--- ${file.name} (${file.type}) ---\n`;
+
+        // Chunk notes only cover text, so binary files get the same placeholder as in packProject
+        if (!isTextContent(file)) {
+            const section = `${fileHeader}[Binary file - ${file.type}, ${file.size} bytes]\n\n`;
+            const tokens = estimateTokens(section);
+            if (usedTokens + tokens > available) {
+                files.push({ path: file.path, status: 'dropped', tokens: 0, originalTokens: tokens });
+                continue;
+            }
+            sections.push(section);
+            usedTokens += tokens;
+            files.push({ path: file.path, status: 'binary', tokens, originalTokens: tokens });
+            continue;
+        }
+
+        const fullSection = `${fileHeader}${file.content}\n\n`;
+        const originalTokens = estimateTokens(fullSection);
+
+        if (getPriority(file.name) !== 1) {
+            files.push({ path: file.path, status: 'summarized', tokens: 0, originalTokens });
+            continue;
+        }
+
+        // README files are read directly, since they are what organizers asked teams to write
+        const allowedTokens = Math.min(maxFileTokens, available - usedTokens);
+        if (originalTokens <= allowedTokens) {
+            sections.push(fullSection);
+            usedTokens += originalTokens;
+            files.push({ path: file.path, status: 'included', tokens: originalTokens, originalTokens });
+            continue;
+        }
+
+        const contentTokens = allowedTokens - estimateTokens(fileHeader) - 1;
+        if (contentTokens < MIN_ELIDED_TOKENS) {
+            files.push({ path: file.path, status: 'summarized', tokens: 0, originalTokens });
+            continue;
+        }
+
+        const elided = elide(file.content, contentTokens);
+        const section = `${fileHeader}${elided.content}\n\n`;
+        const tokens = estimateTokens(section);
+        sections.push(section);
+        usedTokens += tokens;
+        files.push({ path: file.path, status: 'elided', tokens, originalTokens, elidedLines: elided.elidedLines });
+    }
+
+    const notesSection = truncateToTokens(
+        `Chunk notes (the source code was summarized chunk by chunk by an assistant model):\n\n${notes.chunks.map(formatChunkNote).join('')}`,
+        Math.max(0, available - usedTokens),
+        '\n... [remaining chunk notes truncated to fit the context budget] ...\n'
+    );
+    sections.push(notesSection);
+    usedTokens += estimateTokens(notesSection);
+
+    return {
+        text: sections.join(''),
+        manifest: {
+            model,
+            contextWindow,
+            budgetTokens,
+            usedTokens,
+            mapTokens,
+            includedFiles: files.filter(entry => entry.status === 'included' || entry.status === 'binary').length,
+            elidedFiles: files.filter(entry => entry.status === 'elided').length,
+            outlinedFiles: 0,
+            summarizedFiles: files.filter(entry => entry.status === 'summarized').length,
+            droppedFiles: files.filter(entry => entry.status === 'dropped').length,
+            files
+        }
+    };
+}
@@ -0,0 +1,15 @@
+/**
+ * Spreadsheets run text starting with =, +, - or @ (or a tab or carriage
+ * return) as a formula, and project names, judge names and judge feedback
+ * come from teams and the model. A leading quote keeps such text a plain
+ * string.
+ */
+function neutralizeFormula(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/** One CSV cell: text is kept from running as a formula, then quoted if needed. Numbers are written as they are. */
+export function csvCell(value: string | number | undefined): string {
+    const text = typeof value === 'string' ? neutralizeFormula(value) : value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
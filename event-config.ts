@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { AwardCategory, EventConfig, EventTrack } from './judging-types';
+import { EMPTY_EVENT } from './prompt-template';
+import { AWARD_METHODS } from './awards';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toId(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Checks an event configuration from the UI and returns it with only the
+ * known fields. Track IDs are derived from the names when missing.
+ */
+export function validateEventConfig(raw: any): { config: EventConfig; errors: string[] } {
+    const errors: string[] = [];
+    if (!raw || typeof raw !== 'object') {
+        return { config: { ...EMPTY_EVENT }, errors: ['the event configuration must be an object'] };
+    }
+
+    const text = (field: string) => {
+        if (raw[field] === undefined || raw[field] === null) return '';
+        if (typeof raw[field] !== 'string') errors.push(`${field} must be text`);
+        return typeof raw[field] === 'string' ? raw[field].trim() : '';
+    };
+    const date = (field: string) => {
+        const value = text(field);
+        if (value && !DATE_PATTERN.test(value)) errors.push(`${field} must be a date in the form YYYY-MM-DD`);
+        return value || undefined;
+    };
+
+    const config: EventConfig = {
+        name: text('name'),
+        theme: text('theme'),
+        rules: text('rules'),
+        judgingStart: date('judgingStart'),
+        judgingEnd: date('judgingEnd'),
+        tracks: [],
+        awards: []
+    };
+
+    if (config.judgingStart && config.judgingEnd && config.judgingStart > config.judgingEnd) {
+        errors.push('judgingStart must not be after judgingEnd');
+    }
+
+    if (raw.tracks !== undefined && !Array.isArray(raw.tracks)) {
+        errors.push('tracks must be an array');
+    }
+
+    for (const track of Array.isArray(raw.tracks) ? raw.tracks : []) {
+        if (!track || typeof track.name !== 'string' || !track.name.trim()) {
+            errors.push('every track needs a name');
+            continue;
+        }
+
+        const id = typeof track.id === 'string' && track.id.trim() ? track.id.trim() : toId(track.name);
+        if (config.tracks.some(existing => existing.id === id)) {
+            errors.push(`track "${track.name.trim()}" is defined more than once`);
+            continue;
+        }
+
+        const parsed: EventTrack = { id, name: track.name.trim() };
+        if (typeof track.description === 'string' && track.description.trim()) parsed.description = track.description.trim();
+        config.tracks.push(parsed);
+    }
+
+    if (raw.awards !== undefined && !Array.isArray(raw.awards)) {
+        errors.push('awards must be an array');
+    }
+
+    // Award judges and technologies are checked when a run starts, since panels and signatures change between runs
+    for (const award of Array.isArray(raw.awards) ? raw.awards : []) {
+        if (!award || typeof award.name !== 'string' || !award.name.trim()) {
+            errors.push('every award needs a name');
+            continue;
+        }
+
+        const name = award.name.trim();
+        const method = award.method ?? 'master-judge';
+        const id = typeof award.id === 'string' && award.id.trim() ? award.id.trim() : toId(name);
+        if (config.awards!.some(existing => existing.id === id)) {
+            errors.push(`award "${name}" is defined more than once`);
+            continue;
+        }
+        if (!AWARD_METHODS.includes(method)) {
+            errors.push(`award "${name}": method must be one of ${AWARD_METHODS.join(', ')}`);
+            continue;
+        }
+
+        const criteria = typeof award.criteria === 'string' ? award.criteria.trim() : '';
+        if (method === 'master-judge' && !criteria) {
+            errors.push(`award "${name}": criteria are required when the master judge decides it`);
+        }
+        if (method === 'judge-top-score' && (typeof award.judgeId !== 'string' || !award.judgeId.trim())) {
+            errors.push(`award "${name}": judgeId is required when a judge's top score decides it`);
+        }
+
+        const tracks = Array.isArray(award.tracks) ? award.tracks : [];
+        const unknownTracks = tracks.filter((track: unknown) => !config.tracks.some(existing => existing.id === track));
+        if (award.tracks !== undefined && !Array.isArray(award.tracks)) {
+            errors.push(`award "${name}": tracks must be a list of track IDs`);
+        } else if (unknownTracks.length > 0) {
+            errors.push(`award "${name}": unknown tracks ${unknownTracks.map((track: unknown) => JSON.stringify(track)).join(', ')}`);
+        }
+
+        const requiredTechnologies = Array.isArray(award.requiredTechnologies) ? award.requiredTechnologies : [];
+        if (award.requiredTechnologies !== undefined && (!Array.isArray(award.requiredTechnologies) ||
+            !award.requiredTechnologies.every((technology: unknown) => typeof technology === 'string'))) {
+            errors.push(`award "${name}": requiredTechnologies must be a list of technology signature IDs`);
+        }
+
+        const minScore = award.minScore ?? undefined;
+        if (minScore !== undefined && (typeof minScore !== 'number' || minScore < 1 || minScore > 10)) {
+            errors.push(`award "${name}": minScore must be a number from 1 to 10`);
+        }
+
+        const parsed: AwardCategory = { id, name, criteria, method };
+        if (method === 'judge-top-score' && typeof award.judgeId === 'string') parsed.judgeId = award.judgeId.trim();
+        if (tracks.length > 0) parsed.tracks = tracks;
+        if (typeof minScore === 'number') parsed.minScore = minScore;
+        if (requiredTechnologies.length > 0) parsed.requiredTechnologies = requiredTechnologies;
+        config.awards!.push(parsed);
+    }
+
+    return { config, errors: Array.from(new Set(errors)) };
+}
+
+/** Keeps the event configuration in a single JSON file. */
+export class EventConfigStore {
+    constructor(private readonly configPath: string) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(dirname(this.configPath), { recursive: true });
+    }
+
+    async get(): Promise<EventConfig> {
+        try {
+            return { ...EMPTY_EVENT, ...JSON.parse(await fs.readFile(this.configPath, 'utf-8')) };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('❌ Error reading the event configuration:', error);
+            }
+            return { ...EMPTY_EVENT, tracks: [] };
+        }
+    }
+
+    async save(config: EventConfig): Promise<void> {
+        await fs.writeFile(this.configPath, JSON.stringify(config, null, 2), 'utf-8');
+        console.log(`🎪 Stored event configuration "${config.name || 'Unnamed event'}" with ${config.tracks.length} tracks`);
+    }
+}
@@ -0,0 +1,130 @@
+import { ContextManifestEntry, JudgingRun, ProjectEvaluation } from './judging-types';
+import { getAverageScore } from './ranking-reconciliation';
+
+export interface FeedbackOptions {
+    anonymize?: boolean; // Leaves out ranks and the master judge's reasoning, and replaces other teams' names
+}
+
+export interface FeedbackDocument {
+    filename: string;
+    content: string;
+}
+
+const SEEN_LABELS: Record<ContextManifestEntry['status'], string> = {
+    included: 'read in full',
+    elided: 'read with long parts elided',
+    outlined: 'outline only',
+    summarized: 'through chunk notes',
+    binary: 'name only (binary)',
+    dropped: 'name only'
+};
+
+// Lower is closer to reading the whole file
+const SEEN_ORDER: ContextManifestEntry['status'][] = ['included', 'elided', 'outlined', 'summarized', 'binary', 'dropped'];
+
+// Shorter single-word names are often ordinary words, like "Pulse" or "Bridge"
+const MIN_DISTINCTIVE_NAME_CHARS = 8;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whether a team name is unlikely to turn up as an ordinary word: several words, long, or not a plain word. */
+function isDistinctiveName(name: string): boolean {
+    return /\s/.test(name) || name.length >= MIN_DISTINCTIVE_NAME_CHARS || !/^([A-Z]?[a-z]+|[A-Z]+)$/.test(name);
+}
+
+// Longest first, so "Green Grid Pro" is replaced whole rather than as "Green Grid"
+function namesPattern(names: string[]): string {
+    return [...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+/** Every file any AI judge saw, with the most complete way one of them saw it. */
+function filesSeen(evaluation: ProjectEvaluation): ContextManifestEntry[] {
+    const seen = new Map<string, ContextManifestEntry>();
+    for (const result of evaluation.judgeResults) {
+        for (const entry of result.context?.files || []) {
+            const existing = seen.get(entry.path);
+            if (!existing || SEEN_ORDER.indexOf(entry.status) < SEEN_ORDER.indexOf(existing.status)) {
+                seen.set(entry.path, entry);
+            }
+        }
+    }
+    return Array.from(seen.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Writes one Markdown feedback document for a team: every judge's score,
+ * summary, likes and dislikes, the master judge's reasoning and the files
+ * the judges saw.
+ */
+export function feedbackDocument(run: JudgingRun, evaluation: ProjectEvaluation, options: FeedbackOptions = {}): string {
+    // Judges and the master judge compare projects by name, which other teams shouldn't see
+    const otherNames = run.evaluations
+        .filter(other => other !== evaluation && other.projectName !== evaluation.projectName)
+        .map(other => other.projectName)
+        .filter(name => name.trim());
+    // Distinctive names are replaced in any case; ordinary words only as written, so "bridge" survives a team called "Bridge"
+    const distinctive = otherNames.filter(isDistinctiveName);
+    const ordinary = otherNames.filter(name => !isDistinctiveName(name));
+    const patterns: RegExp[] = [];
+    if (distinctive.length > 0) patterns.push(new RegExp(`(?<![\\w])(${namesPattern(distinctive)})(?![\\w])`, 'gi'));
+    if (ordinary.length > 0) patterns.push(new RegExp(`(?<![\\w])(${namesPattern(ordinary)})(?![\\w])`, 'g'));
+    const redact = (text: string) => options.anonymize ?
+        patterns.reduce((redacted, pattern) => redacted.replace(pattern, 'another team'), text) :
+        text;
+
+    const lines = [
+        `# Feedback for ${evaluation.projectName}`,
+        '',
+        `${run.event?.name || 'Hackathon'} judging${run.completedAt ? `, ${run.completedAt.slice(0, 10)}` : ''}.`,
+        ''
+    ];
+
+    const standing = [`Average score: ${getAverageScore(evaluation).toFixed(1)}/10`];
+    if (!options.anonymize && evaluation.finalRank) standing.push(`Rank: #${evaluation.finalRank} of ${run.evaluations.length}`);
+    if (!options.anonymize && evaluation.trackRank) standing.push(`Track rank: #${evaluation.trackRank}`);
+    lines.push(standing.join(' · '));
+
+    // The reasoning explains the rank, so it goes with it
+    const reasoning = evaluation.trackRankReasoning || evaluation.rankReasoning;
+    if (reasoning && !options.anonymize) {
+        lines.push('', '## Master judge', '', reasoning);
+    }
+
+    for (const result of evaluation.judgeResults) {
+        lines.push('', `## ${result.judgeName}`, '');
+        if (result.failed) {
+            lines.push('This judge could not evaluate the project.');
+            continue;
+        }
+
+        lines.push(`Score: ${result.score}/10`, '', redact(result.summary));
+        for (const criterion of result.criteriaScores || []) {
+            lines.push(`- **${criterion.criterionName}**: ${criterion.score}/${criterion.maxPoints}. ${redact(criterion.justification)}`);
+        }
+        if (result.likes.length > 0) lines.push('', '**What the judge liked:**', '', ...result.likes.map(like => `- ${redact(like)}`));
+        if (result.dislikes.length > 0) lines.push('', '**What could be better:**', '', ...result.dislikes.map(dislike => `- ${redact(dislike)}`));
+    }
+
+    const files = filesSeen(evaluation);
+    if (files.length > 0) {
+        lines.push('', '## Files the judges saw', '', ...files.map(file => `- \`${file.path}\`: ${SEEN_LABELS[file.status]}`));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/** One feedback document per project of the run, with unique file names. */
+export function feedbackDocuments(run: JudgingRun, options: FeedbackOptions = {}): FeedbackDocument[] {
+    const used = new Set<string>();
+    return run.evaluations.map(evaluation => {
+        const base = evaluation.projectName.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+        let filename = `${base}-feedback.md`;
+        for (let suffix = 2; used.has(filename); suffix++) {
+            filename = `${base}-${suffix}-feedback.md`;
+        }
+        used.add(filename);
+        return { filename, content: feedbackDocument(run, evaluation, options) };
+    });
+}
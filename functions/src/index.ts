@@ -1,10 +1,10 @@
 import { onRequest } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
-import { Anthropic } from '@anthropic-ai/sdk';
 import Busboy from 'busboy';
-import { extname } from 'path';
+import { extname, join } from 'path';
 import * as yauzl from 'yauzl';
 import * as yazl from 'yazl';
+import { AnthropicProvider, LLMProvider, ReplayProvider } from './llm-provider';
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -71,10 +71,10 @@ const IGNORED_EXTENSIONS = [
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB per file
 const MAX_TOTAL_SIZE = 10 * 1024 * 1024; // 10MB total per project
 
-// Initialize Anthropic
-const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY || ''
-});
+// Without an API key (or with LLM_PROVIDER=replay) responses come from recorded fixtures
+const llmProvider: LLMProvider = process.env.ANTHROPIC_API_KEY && process.env.LLM_PROVIDER !== 'replay' ?
+    new AnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.ANTHROPIC_BASE_URL) :
+    new ReplayProvider(process.env.LLM_FIXTURES_DIR || join(__dirname, '..', 'llm-fixtures'));
 
 function shouldIgnoreFile(filepath: string): boolean {
     const filename = filepath.toLowerCase();
@@ -160,9 +160,9 @@ function getFileType(filename: string): string {
 
 async function callClaude(prompt: string, seed: number): Promise<{ content: string; usage: any }> {
     try {
-        const response = await anthropic.messages.create({
+        return await llmProvider.complete({
             model: 'claude-3-5-sonnet-20241022',
-            max_tokens: 2000,
+            maxTokens: 2000,
             messages: [
                 {
                     role: 'user',
@@ -171,11 +171,6 @@ async function callClaude(prompt: string, seed: number): Promise<{ content: stri
             ],
             system: `You are evaluating hackathon projects. Use consistent evaluation criteria. Random seed: ${seed}`
         });
-        
-        return {
-            content: response.content[0].type === 'text' ? response.content[0].text : '',
-            usage: response.usage
-        };
     } catch (error) {
         console.error('Claude API error:', error);
         throw error;
@@ -0,0 +1,83 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+// Copy of the server's provider abstraction, limited to the text prompts this function sends
+
+export interface LLMRequest {
+    model: string;
+    maxTokens: number;
+    system: string;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface LLMResponse {
+    content: string;
+    usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'anthropic';
+    private readonly anthropic: Anthropic;
+
+    constructor(apiKey: string, baseURL?: string) {
+        this.anthropic = new Anthropic({
+            apiKey,
+            baseURL: baseURL || undefined
+        });
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.anthropic.messages.create({
+            model: request.model,
+            max_tokens: request.maxTokens,
+            messages: request.messages,
+            system: request.system
+        });
+
+        return {
+            content: response.content[0].type === 'text' ? response.content[0].text : '',
+            usage: { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens }
+        };
+    }
+}
+
+/**
+ * Replays responses recorded by the server's record mode, keyed by prompt
+ * hash. Prompts without a fixture get a deterministic offline response.
+ */
+export class ReplayProvider implements LLMProvider {
+    readonly name = 'replay';
+
+    constructor(private readonly fixturesDir: string) {}
+
+    static hashRequest(request: LLMRequest): string {
+        return createHash('sha256')
+            .update(JSON.stringify({ system: request.system, messages: request.messages, tool: null }))
+            .digest('hex');
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const hash = ReplayProvider.hashRequest(request);
+
+        try {
+            const fixture = JSON.parse(await fs.readFile(join(this.fixturesDir, `${hash}.json`), 'utf-8'));
+            return fixture.response as LLMResponse;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Error reading fixture ${hash}:`, error);
+            }
+        }
+
+        return {
+            content: `Offline response ${hash.substring(0, 12)}: no recorded response exists for this prompt.`,
+            usage: { input_tokens: 0, output_tokens: 0 }
+        };
+    }
+}
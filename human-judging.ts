@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { BlendWeights, HumanScore, Judge, JudgeResult, ProjectEvaluation } from './judging-types';
+import { ProjectStore } from './project-store';
+import { round } from './math-utils';
+
+export const DEFAULT_BLEND: BlendWeights = { ai: 1, human: 1 };
+
+// AI and human averages this many points apart are flagged for review
+export const DISAGREEMENT_THRESHOLD = 2;
+
+/**
+ * Keeps human judges' scores on disk, one file per project, so they can be
+ * entered before or between judging runs and are picked up by every run
+ * that includes the project.
+ */
+export class HumanScoreStore {
+    constructor(private readonly scoresDir: string) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.scoresDir, { recursive: true });
+    }
+
+    async listForProject(projectId: string): Promise<HumanScore[]> {
+        if (!ProjectStore.isValidId(projectId)) {
+            return [];
+        }
+
+        try {
+            const content = await fs.readFile(this.getScoresPath(projectId), 'utf-8');
+            return JSON.parse(content) as HumanScore[];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error reading human scores for project ${projectId}:`, error);
+            }
+            return [];
+        }
+    }
+
+    /** Saves a score, replacing the same judge's earlier score for the project. */
+    async save(score: HumanScore): Promise<void> {
+        const scores = (await this.listForProject(score.projectId)).filter(existing => existing.judgeId !== score.judgeId);
+        scores.push(score);
+        await fs.writeFile(this.getScoresPath(score.projectId), JSON.stringify(scores, null, 2), 'utf-8');
+        console.log(`🧑‍⚖️ Stored ${score.judgeName}'s score of ${score.score} for project ${score.projectId}`);
+    }
+
+    private getScoresPath(projectId: string): string {
+        return join(this.scoresDir, `${projectId}.json`);
+    }
+}
+
+/**
+ * Turns a human judge's stored score into a judge result. A judge who has
+ * not scored the project yet gets a failed result, so the gap shows up in
+ * the run instead of counting as a score.
+ */
+export function toHumanResult(judge: Judge, score: HumanScore | undefined): JudgeResult {
+    if (!score) {
+        return {
+            judgeId: judge.id,
+            judgeName: judge.name,
+            summary: `${judge.name} has not scored this project yet`,
+            score: null,
+            likes: [],
+            dislikes: [],
+            failed: true,
+            error: 'No score submitted by this human judge',
+            kind: 'human'
+        };
+    }
+
+    return {
+        judgeId: judge.id,
+        judgeName: judge.name,
+        summary: score.summary,
+        score: score.score,
+        likes: score.likes,
+        dislikes: score.dislikes,
+        kind: 'human'
+    };
+}
+
+function averageScore(results: JudgeResult[]): number | undefined {
+    const scores = results
+        .filter(result => !result.failed && typeof result.score === 'number')
+        .map(result => result.normalizedScore ?? result.score as number);
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+}
+
+/**
+ * Averages the AI and human judges of each project separately (normalized
+ * scores when the run calibrates judges) and blends the two averages with
+ * the given weights. A project only one side has scored takes that side's
+ * average. Projects whose averages differ by DISAGREEMENT_THRESHOLD or more
+ * are flagged.
+ */
+export function blendScores(evaluations: ProjectEvaluation[], weights: BlendWeights): void {
+    for (const evaluation of evaluations) {
+        const ai = averageScore(evaluation.judgeResults.filter(result => result.kind !== 'human'));
+        const human = averageScore(evaluation.judgeResults.filter(result => result.kind === 'human'));
+
+        evaluation.aiScore = ai === undefined ? undefined : round(ai);
+        evaluation.humanScore = human === undefined ? undefined : round(human);
+        evaluation.disagreement = undefined;
+        evaluation.aiHumanDisagree = undefined;
+
+        if (ai !== undefined && human !== undefined) {
+            const totalWeight = weights.ai + weights.human;
+            evaluation.blendedScore = round((ai * weights.ai + human * weights.human) / totalWeight);
+            evaluation.disagreement = round(Math.abs(ai - human));
+            evaluation.aiHumanDisagree = evaluation.disagreement >= DISAGREEMENT_THRESHOLD || undefined;
+        } else {
+            evaluation.blendedScore = evaluation.aiScore ?? evaluation.humanScore;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Judge, JudgePanel, JudgePanelFile } from './judging-types';
+import { ProjectStore } from './project-store';
+
+export const JUDGE_PANEL_FORMAT = 'hackathon-judge-panel';
+
+// Bump when the file layout changes in a way older readers can't handle
+export const JUDGE_PANEL_VERSION = 1;
+
+/**
+ * Reads the envelope of an imported panel file. The judges themselves are
+ * validated by the caller like the judges of a run request.
+ */
+export function parseJudgePanelFile(raw: any): { name: string; judges: unknown; errors: string[] } {
+    if (!raw || typeof raw !== 'object' || raw.format !== JUDGE_PANEL_FORMAT) {
+        return { name: '', judges: undefined, errors: [`not a judge panel file (expected format "${JUDGE_PANEL_FORMAT}")`] };
+    }
+
+    const errors: string[] = [];
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+        errors.push('version must be a positive integer');
+    } else if (raw.version > JUDGE_PANEL_VERSION) {
+        errors.push(`panel file version ${raw.version} is newer than this server supports (${JUDGE_PANEL_VERSION})`);
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+        errors.push('name is required');
+    }
+
+    return { name: typeof raw.name === 'string' ? raw.name.trim() : '', judges: raw.judges, errors };
+}
+
+export function toJudgePanelFile(panel: JudgePanel): JudgePanelFile {
+    return {
+        format: JUDGE_PANEL_FORMAT,
+        version: JUDGE_PANEL_VERSION,
+        name: panel.name,
+        exportedAt: new Date().toISOString(),
+        judges: panel.judges
+    };
+}
+
+/**
+ * Keeps judge panels on disk so the same panel can be reused across page
+ * loads and events.
+ */
+export class JudgePanelStore {
+    constructor(private readonly panelsDir: string) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.panelsDir, { recursive: true });
+    }
+
+    async list(): Promise<JudgePanel[]> {
+        const files = (await fs.readdir(this.panelsDir)).filter(file => file.endsWith('.json'));
+        const panels = await Promise.all(files.map(file => this.get(file.replace(/\.json$/, ''))));
+        return panels
+            .filter((panel): panel is JudgePanel => !!panel)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    async get(id: string): Promise<JudgePanel | null> {
+        if (!ProjectStore.isValidId(id)) {
+            return null;
+        }
+
+        try {
+            const content = await fs.readFile(this.getPanelPath(id), 'utf-8');
+            return JSON.parse(content) as JudgePanel;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error reading judge panel ${id}:`, error);
+            }
+            return null;
+        }
+    }
+
+    /** Saves a new panel, or replaces the panel with the given ID. */
+    async save(name: string, judges: Judge[], id?: string): Promise<JudgePanel> {
+        const existing = id ? await this.get(id) : null;
+        const now = new Date().toISOString();
+        const panel: JudgePanel = {
+            id: existing ? existing.id : randomUUID(),
+            name,
+            judges,
+            createdAt: existing ? existing.createdAt : now,
+            updatedAt: now
+        };
+
+        await fs.writeFile(this.getPanelPath(panel.id), JSON.stringify(panel, null, 2), 'utf-8');
+        console.log(`💾 Stored judge panel "${name}" as ${panel.id} (${judges.length} judges)`);
+
+        return panel;
+    }
+
+    private getPanelPath(id: string): string {
+        return join(this.panelsDir, `${id}.json`);
+    }
+}
@@ -0,0 +1,596 @@
+import { CallAttempt } from './claude-resilience';
+import { AwardCategory, AwardResult, CacheMode, CriterionScore, EventConfig, EventTrack, HumanScore, Judge, JudgeCriterion, JudgeResult, MapReduceSettings, ModelSettings, PairwiseComparison, ProjectChunkNotes, ProjectEvaluation, RankSource, StoredProject, UsageTotals } from './judging-types';
+import { addUsage, emptyUsage, PriceTable } from './usage-accounting';
+import { estimateTokens, PackedProject, packProject, packProjectNotes, SYSTEM_PROMPT_RESERVE_TOKENS, truncateToTokens } from './context-packer';
+import { ChunkNoteWriter } from './chunk-notes';
+import { PairwiseRanker } from './pairwise-ranking';
+import { mergeRanking, validateRanking } from './ranking-reconciliation';
+import { aggregateSamples } from './score-statistics';
+import { toHumanResult } from './human-judging';
+import { buildTemplateContext, renderTemplate } from './prompt-template';
+import { applyTrackRanking, groupByTrack } from './tracks';
+import { AwardJudge } from './awards';
+
+export interface ClaudeMessage {
+    role: 'user' | 'assistant';
+    content: string | any[];
+}
+
+export interface ClaudeTool {
+    name: string;
+    description: string;
+    input_schema: Record<string, any>;
+}
+
+export interface ClaudeCallRequest {
+    messages: ClaudeMessage[];
+    seed: number;
+    tool?: ClaudeTool; // When set, the model is forced to answer by calling this tool
+    settings?: ModelSettings;
+    cache?: CacheMode; // Defaults to "use"
+    sample?: number; // Independent sample index, so repeated samples are not answered from the cache
+}
+
+export interface ClaudeToolUse {
+    id: string;
+    name: string;
+    input: any;
+}
+
+export interface ClaudeResponse {
+    content: string;
+    usage: any;
+    toolUse?: ClaudeToolUse;
+    model: string; // Model that produced the response, after any failover
+    attempts: CallAttempt[];
+    cacheHit: boolean;
+}
+
+export type ClaudeCaller = (request: ClaudeCallRequest) => Promise<ClaudeResponse>;
+
+export interface JudgeProgress {
+    judge: Judge;
+    result: JudgeResult;
+    error?: string;
+}
+
+export type JudgeProgressListener = (progress: JudgeProgress) => void;
+
+export interface ContextLimits {
+    model: string;
+    contextWindow: number;
+    maxOutputTokens: number;
+}
+
+// Resolves the context window and output budget a call with these settings will get
+export type ContextLimitResolver = (settings: ModelSettings) => ContextLimits;
+
+export interface EvaluationOptions {
+    cache?: CacheMode;
+    chunkNotes?: ProjectChunkNotes; // Judges read these instead of the source (map-reduce mode)
+    samples?: number; // Independent evaluations per judge, aggregated into one result
+    humanScores?: HumanScore[]; // Stored scores of the project's human judges
+    event?: EventConfig; // Fills the {{event.*}} and {{project.*}} variables in judge prompts
+}
+
+export interface MasterRanking {
+    evaluations: ProjectEvaluation[];
+    usage: UsageTotals;
+    comparisons?: PairwiseComparison[]; // Pairwise strategy only
+    validationErrors?: string[]; // Left in a master judge ranking after the retry
+}
+
+const EVALUATION_TOOL_NAME = 'submit_evaluation';
+
+const RANKING_TOOL_NAME = 'submit_ranking';
+
+/**
+ * Runs the per-judge evaluations and the master ranking for a set of projects.
+ * Judge failures are recorded on the result instead of throwing, so a run
+ * always produces a complete set of evaluations.
+ */
+export class JudgingPipeline {
+    private readonly chunkNoteWriter: ChunkNoteWriter;
+    private readonly pairwiseRanker: PairwiseRanker;
+    private readonly awardJudge: AwardJudge;
+
+    constructor(
+        private readonly callClaude: ClaudeCaller,
+        private readonly priceTable: PriceTable,
+        private readonly resolveContextLimits: ContextLimitResolver
+    ) {
+        this.chunkNoteWriter = new ChunkNoteWriter(callClaude, priceTable, resolveContextLimits);
+        this.pairwiseRanker = new PairwiseRanker(callClaude, priceTable, resolveContextLimits);
+        this.awardJudge = new AwardJudge(callClaude, priceTable, resolveContextLimits);
+    }
+
+    /**
+     * Packs the project into whatever part of the judge's context window is
+     * left after the reserved prompt and output tokens. With chunk notes
+     * (map-reduce mode) the notes stand in for the source files.
+     */
+    formatProjectForJudge(project: StoredProject, limits: ContextLimits, reservedTokens: number, chunkNotes?: ProjectChunkNotes): PackedProject {
+        const budgetTokens = Math.max(0, limits.contextWindow - reservedTokens);
+        if (chunkNotes) {
+            return packProjectNotes(project, chunkNotes, budgetTokens, limits.model, limits.contextWindow);
+        }
+
+        const packed = packProject(project, budgetTokens, limits.model, limits.contextWindow);
+
+        if (packed.manifest.elidedFiles > 0 || packed.manifest.droppedFiles > 0) {
+            console.log(`📦 Packed ${project.name} into ${packed.manifest.usedTokens}/${budgetTokens} tokens: ${packed.manifest.elidedFiles} files elided, ${packed.manifest.droppedFiles} dropped`);
+        }
+
+        return packed;
+    }
+
+    /** Map step of map-reduce mode, run before the judges see the project. */
+    writeChunkNotes(project: StoredProject, settings: MapReduceSettings, seed: number, cache?: CacheMode): Promise<ProjectChunkNotes> {
+        return this.chunkNoteWriter.writeNotes(project, settings, seed, cache);
+    }
+
+    async evaluateProject(
+        project: StoredProject,
+        judges: Judge[],
+        seed: number,
+        onJudgeFinished?: JudgeProgressListener,
+        options: EvaluationOptions = {}
+    ): Promise<ProjectEvaluation> {
+        console.log(`📊 Evaluating project: ${project.name}`);
+
+        // Get evaluations from all AI judges in parallel; human judges' results come from their stored scores
+        const judgeResults = await Promise.all(judges.map(async judge => {
+            if (judge.kind !== 'human') {
+                return this.evaluateWithJudge(project, judge, seed, options, onJudgeFinished);
+            }
+
+            const result = toHumanResult(judge, options.humanScores?.find(score => score.judgeId === judge.id));
+            onJudgeFinished?.({ judge, result, error: result.error });
+            return result;
+        }));
+
+        // The project's usage includes the calls that wrote its chunk notes
+        const usage = judgeResults.reduce((total, result) => addUsage(total, result.usage), emptyUsage());
+        return {
+            projectId: project.id,
+            projectName: project.name,
+            judgeResults,
+            usage: addUsage(usage, options.chunkNotes?.usage),
+            chunkNotes: options.chunkNotes,
+            track: project.track
+        };
+    }
+
+    createFallbackEvaluation(projectId: string, projectName: string, judges: Judge[], error: string, track?: string): ProjectEvaluation {
+        return {
+            projectId,
+            projectName,
+            judgeResults: judges.map(judge => this.createFailedResult(judge, error)),
+            track
+        };
+    }
+
+    private createFailedResult(judge: Judge, error: string, usage?: UsageTotals): JudgeResult {
+        return {
+            judgeId: judge.id,
+            judgeName: judge.name,
+            summary: `Evaluation failed: ${error}`,
+            score: null,
+            likes: [],
+            dislikes: [],
+            failed: true,
+            error,
+            usage,
+            kind: judge.kind === 'human' ? 'human' : undefined
+        };
+    }
+
+    private async evaluateWithJudge(
+        project: StoredProject,
+        judge: Judge,
+        seed: number,
+        options: EvaluationOptions,
+        onJudgeFinished?: JudgeProgressListener
+    ): Promise<JudgeResult> {
+        const hasRubric = !!judge.criteria && judge.criteria.length > 0;
+        const templateContext = options.event ? buildTemplateContext(options.event, project) : undefined;
+        const judgePrompt = templateContext ? renderTemplate(judge.prompt, templateContext) : judge.prompt;
+        const systemPrompt = templateContext && judge.systemPrompt ? renderTemplate(judge.systemPrompt, templateContext) : judge.systemPrompt;
+        const basePrompt = `${judgePrompt}${hasRubric ? this.formatRubric(judge.criteria!) : ''}\n\nProject to evaluate:\n`;
+        const endPrompt = `\n\nSubmit your evaluation by calling the ${EVALUATION_TOOL_NAME} tool.`;
+
+        const tool = this.buildEvaluationTool(judge);
+        const settings: ModelSettings = {
+            model: judge.model,
+            temperature: judge.temperature,
+            maxTokens: judge.maxTokens,
+            systemPrompt
+        };
+
+        // Reserve the prompt, the tool schema and two answers (the repair retry echoes the first one)
+        const limits = this.resolveContextLimits(settings);
+        const reservedTokens = estimateTokens(basePrompt + endPrompt + JSON.stringify(tool) + (systemPrompt || '')) +
+            SYSTEM_PROMPT_RESERVE_TOKENS + 2 * limits.maxOutputTokens;
+        const packed = this.formatProjectForJudge(project, limits, reservedTokens, options.chunkNotes);
+        const prompt = basePrompt + packed.text + endPrompt;
+
+        // Independent samples of the same prompt, so one noisy answer doesn't decide the score
+        const sampleCount = Math.max(1, options.samples || 1);
+        const samples = await Promise.all(Array.from({ length: sampleCount }, (_, sample) =>
+            this.evaluateSample(project, judge, prompt, tool, settings, seed, sample, options.cache)
+        ));
+
+        const result = sampleCount > 1 ? aggregateSamples(samples) : samples[0];
+        result.context = packed.manifest;
+        onJudgeFinished?.({ judge, result, error: result.failed ? result.error : undefined });
+        return result;
+    }
+
+    private async evaluateSample(
+        project: StoredProject,
+        judge: Judge,
+        prompt: string,
+        tool: ClaudeTool,
+        settings: ModelSettings,
+        seed: number,
+        sample: number,
+        cache?: CacheMode
+    ): Promise<JudgeResult> {
+        const hasRubric = !!judge.criteria && judge.criteria.length > 0;
+        const messages: ClaudeMessage[] = [{ role: 'user', content: prompt }];
+        const usage = emptyUsage();
+
+        try {
+            let response = await this.callClaude({ messages, seed, tool, settings, cache, sample });
+            this.priceTable.record(usage, response);
+            let evaluation = this.extractToolInput(response);
+            let errors = this.validateEvaluation(evaluation, judge);
+
+            // Give the model one chance to repair its answer with the validation errors
+            if (errors.length > 0) {
+                console.log(`⚠️  Invalid evaluation from ${judge.name} for ${project.name}, retrying: ${errors.join('; ')}`);
+
+                messages.push(...this.buildRepairMessages(response, errors, EVALUATION_TOOL_NAME, 'evaluation'));
+                response = await this.callClaude({ messages, seed, tool, settings, cache, sample });
+                this.priceTable.record(usage, response);
+                evaluation = this.extractToolInput(response);
+                errors = this.validateEvaluation(evaluation, judge);
+            }
+
+            if (errors.length > 0) {
+                throw new Error(`Invalid evaluation after retry: ${errors.join('; ')}`);
+            }
+
+            const result: JudgeResult = {
+                judgeId: judge.id,
+                judgeName: judge.name,
+                summary: evaluation.summary,
+                score: evaluation.score,
+                likes: evaluation.likes,
+                dislikes: evaluation.dislikes,
+                usage
+            };
+
+            // Rubric judges are scored from their criteria, not the model's overall number
+            if (hasRubric) {
+                result.criteriaScores = this.parseCriteriaScores(judge.criteria!, evaluation.criteria);
+                result.score = this.computeRubricScore(judge.criteria!, result.criteriaScores);
+            }
+
+            return result;
+        } catch (error) {
+            console.error(`❌ Error evaluating project ${project.name} with judge ${judge.name}${sample > 0 ? ` (sample ${sample + 1})` : ''}:`, error);
+
+            // Record the failure instead of inventing a score
+            return this.createFailedResult(judge, error instanceof Error ? error.message : 'Unknown error', usage);
+        }
+    }
+
+    private buildEvaluationTool(judge: Judge): ClaudeTool {
+        const properties: Record<string, any> = {
+            summary: { type: 'string', description: 'Your detailed analysis and reasoning' },
+            score: { type: 'number', minimum: 1, maximum: 10, description: 'Absolute score from 1-10' },
+            likes: { type: 'array', items: { type: 'string' }, description: 'Positive aspects of the project' },
+            dislikes: { type: 'array', items: { type: 'string' }, description: 'Negative aspects of the project' }
+        };
+        const required = ['summary', 'score', 'likes', 'dislikes'];
+
+        if (judge.criteria && judge.criteria.length > 0) {
+            // One shape per criterion so each score is bounded by that criterion's max points
+            properties.criteria = {
+                type: 'array',
+                description: 'Points awarded for every rubric criterion',
+                minItems: judge.criteria.length,
+                items: {
+                    anyOf: judge.criteria.map(criterion => ({
+                        type: 'object',
+                        properties: {
+                            criterionId: { type: 'string', const: criterion.id },
+                            score: { type: 'number', minimum: 0, maximum: criterion.maxPoints, description: `Points from 0 to ${criterion.maxPoints}` },
+                            justification: { type: 'string', description: 'Why these points were awarded' }
+                        },
+                        required: ['criterionId', 'score', 'justification']
+                    }))
+                }
+            };
+            required.push('criteria');
+        }
+
+        return {
+            name: EVALUATION_TOOL_NAME,
+            description: 'Submit the evaluation of the hackathon project',
+            input_schema: { type: 'object', properties, required }
+        };
+    }
+
+    private extractToolInput(response: ClaudeResponse): any {
+        if (response.toolUse) {
+            return response.toolUse.input;
+        }
+
+        // Tolerate plain JSON answers, with or without prose and markdown fences around them
+        const start = response.content.indexOf('{');
+        const end = response.content.lastIndexOf('}');
+        if (start === -1 || end <= start) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(response.content.substring(start, end + 1));
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private validateEvaluation(evaluation: any, judge: Judge): string[] {
+        if (!evaluation || typeof evaluation !== 'object') {
+            return [`No evaluation was submitted. Call the ${EVALUATION_TOOL_NAME} tool with your evaluation.`];
+        }
+
+        const errors: string[] = [];
+        const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+        if (typeof evaluation.summary !== 'string' || !evaluation.summary.trim()) {
+            errors.push('"summary" must be a non-empty string');
+        }
+        if (typeof evaluation.score !== 'number' || isNaN(evaluation.score) || evaluation.score < 1 || evaluation.score > 10) {
+            errors.push('"score" must be a number from 1 to 10');
+        }
+        if (!isStringArray(evaluation.likes)) {
+            errors.push('"likes" must be an array of strings');
+        }
+        if (!isStringArray(evaluation.dislikes)) {
+            errors.push('"dislikes" must be an array of strings');
+        }
+
+        if (judge.criteria && judge.criteria.length > 0) {
+            if (!Array.isArray(evaluation.criteria)) {
+                errors.push('"criteria" must be an array with one entry per rubric criterion');
+            } else {
+                for (const criterion of judge.criteria) {
+                    const entry = evaluation.criteria.find((item: any) => item && item.criterionId === criterion.id);
+                    if (!entry) {
+                        errors.push(`criterion "${criterion.id}" is missing`);
+                    } else if (typeof entry.score !== 'number' || entry.score < 0 || entry.score > criterion.maxPoints) {
+                        errors.push(`criterion "${criterion.id}" score must be a number from 0 to ${criterion.maxPoints}`);
+                    } else if (typeof entry.justification !== 'string' || !entry.justification.trim()) {
+                        errors.push(`criterion "${criterion.id}" needs a justification`);
+                    }
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    private buildRepairMessages(response: ClaudeResponse, errors: string[], toolName: string, subject: string): ClaudeMessage[] {
+        const feedback = `Your ${subject} was invalid:\n${errors.map(error => `- ${error}`).join('\n')}\n\nCall the ${toolName} tool again with a corrected ${subject}.`;
+
+        if (response.toolUse) {
+            return [
+                { role: 'assistant', content: [{ type: 'tool_use', id: response.toolUse.id, name: response.toolUse.name, input: response.toolUse.input }] },
+                { role: 'user', content: [{ type: 'tool_result', tool_use_id: response.toolUse.id, is_error: true, content: feedback }] }
+            ];
+        }
+
+        return [
+            { role: 'assistant', content: response.content || '(no response)' },
+            { role: 'user', content: feedback }
+        ];
+    }
+
+    private formatRubric(criteria: JudgeCriterion[]): string {
+        const totalPoints = criteria.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+        const lines = criteria.map(criterion =>
+            `- ${criterion.id}: ${criterion.name} (max ${criterion.maxPoints} points)${criterion.description ? ` - ${criterion.description}` : ''}`
+        );
+
+        return `\n\nScore the project against this rubric (${totalPoints} points total). Award points for every criterion and justify each one:\n${lines.join('\n')}`;
+    }
+
+    private parseCriteriaScores(criteria: JudgeCriterion[], rawScores: any[]): CriterionScore[] {
+        return criteria.map(criterion => {
+            const raw = rawScores.find(item => item.criterionId === criterion.id);
+            return {
+                criterionId: criterion.id,
+                criterionName: criterion.name,
+                score: raw.score,
+                maxPoints: criterion.maxPoints,
+                justification: raw.justification
+            };
+        });
+    }
+
+    /**
+     * Converts rubric points to the 1-10 scale. Each criterion contributes its
+     * share of max points, weighted by its weight (max points by default).
+     */
+    private computeRubricScore(criteria: JudgeCriterion[], scores: CriterionScore[]): number {
+        let weightedSum = 0;
+        let totalWeight = 0;
+
+        for (const score of scores) {
+            const criterion = criteria.find(item => item.id === score.criterionId);
+            if (!criterion) continue;
+
+            const weight = typeof criterion.weight === 'number' ? criterion.weight : criterion.maxPoints;
+            weightedSum += weight * (score.score / score.maxPoints);
+            totalWeight += weight;
+        }
+
+        if (totalWeight === 0) {
+            return 5;
+        }
+
+        const score = 10 * weightedSum / totalWeight;
+        return Math.round(Math.max(1, score) * 10) / 10;
+    }
+
+    /**
+     * Asks the master judge for a relative ranking and returns the evaluations
+     * sorted by final rank, with the master judge's usage. Each track with
+     * more than one project is then ranked again on its own, and those ranks
+     * are stored as track ranks; their usage counts towards the master judge.
+     */
+    async getFinalRanking(evaluations: ProjectEvaluation[], seed: number, settings?: ModelSettings, cache?: CacheMode, tracks: EventTrack[] = []): Promise<MasterRanking> {
+        const overall = await this.rankWithMasterJudge(evaluations, seed, settings, cache);
+
+        for (const group of groupByTrack(overall.evaluations, tracks)) {
+            if (group.evaluations.length === 1) {
+                applyTrackRanking(overall.evaluations, [{ ...group.evaluations[0], finalRank: 1, rankReasoning: undefined }]);
+                continue;
+            }
+
+            console.log(`🎯 Ranking the ${group.evaluations.length} projects of track ${group.track.name}`);
+            const trackRanking = await this.rankWithMasterJudge(group.evaluations, seed, settings, cache, group.track);
+            applyTrackRanking(overall.evaluations, trackRanking.evaluations);
+            addUsage(overall.usage, trackRanking.usage);
+            if (trackRanking.validationErrors) {
+                overall.validationErrors = [...overall.validationErrors || [], ...trackRanking.validationErrors.map(error => `${group.track.name} track: ${error}`)];
+            }
+        }
+
+        return overall;
+    }
+
+    /**
+     * Ranks the given evaluations in a single master judge prompt. The ranking
+     * is matched back to the real projects and checked for a complete
+     * permutation; an invalid ranking is re-prompted once with its problems,
+     * and any projects still unranked are placed by average score.
+     */
+    private async rankWithMasterJudge(evaluations: ProjectEvaluation[], seed: number, settings?: ModelSettings, cache?: CacheMode, track?: EventTrack): Promise<MasterRanking> {
+        const ranked = evaluations.map(evaluation => ({ ...evaluation }));
+        const usage = emptyUsage();
+
+        const scope = track ? `all projects in the "${track.name}" track${track.description ? ` (${track.description})` : ''}` : 'all projects';
+        const basePrompt = `You are the master judge for a hackathon. Below are the evaluations from individual judges for each project. Your task is to provide a final relative ranking of ${scope} based on these evaluations.${ranked.some(evaluation => typeof evaluation.humanScore === 'number') ? ' Some evaluations come from human judges. Each blended score weights the AI and human judges as the organizers chose, so follow the blended scores unless the evaluations give a clear reason not to.' : ''}
+
+        Project Evaluations:`;
+
+        const endPrompt = `
+
+        Rank every project exactly once, from 1 (best) to ${ranked.length}, identifying each by its ID. Submit the ranking by calling the ${RANKING_TOOL_NAME} tool.`;
+
+        const evaluationsText = ranked.map(evaluation => `
+        Project: ${evaluation.projectName} (ID: ${evaluation.projectId})${typeof evaluation.humanScore === 'number' ? `
+        Blended score: ${evaluation.blendedScore}/10 (AI judges ${evaluation.aiScore ?? 'n/a'}, human judges ${evaluation.humanScore})` : ''}
+        Judge Evaluations:
+        ${evaluation.judgeResults.map(result => `
+        - ${result.judgeName}${result.kind === 'human' ? ' [human judge]' : ''} (${result.failed ? `Evaluation failed: ${result.error}` : `Score: ${result.score}/10${typeof result.normalizedScore === 'number' ? `, normalized ${result.normalizedScore}/10` : ''}`})${result.criteriaScores && result.criteriaScores.length > 0 ? `
+          Rubric: ${result.criteriaScores.map(criterion => `${criterion.criterionName} ${criterion.score}/${criterion.maxPoints}`).join(', ')}` : ''}
+          Summary: ${result.summary}
+          Likes: ${result.likes.join(', ')}
+          Dislikes: ${result.dislikes.join(', ')}
+        `).join('\n')}
+        `).join('\n\n');
+
+        const tool = this.buildRankingTool(ranked);
+
+        // Fit the evaluations into the master judge's context window, leaving room for a repair round
+        const limits = this.resolveContextLimits(settings || {});
+        const availableTokens = limits.contextWindow - 2 * limits.maxOutputTokens - SYSTEM_PROMPT_RESERVE_TOKENS -
+            estimateTokens(basePrompt + endPrompt + JSON.stringify(tool) + (settings?.systemPrompt || ''));
+
+        const truncatedEvaluations = truncateToTokens(evaluationsText, Math.max(0, availableTokens), '\n\n... [EVALUATIONS TRUNCATED TO FIT THE CONTEXT WINDOW] ...');
+        if (truncatedEvaluations !== evaluationsText) {
+            console.log(`⚠️  Truncating master judge evaluations from ${estimateTokens(evaluationsText)} to ${estimateTokens(truncatedEvaluations)} estimated tokens`);
+        }
+
+        const messages: ClaudeMessage[] = [{ role: 'user', content: basePrompt + truncatedEvaluations + endPrompt }];
+
+        try {
+            let response = await this.callClaude({ messages, seed, tool, settings, cache });
+            this.priceTable.record(usage, response);
+            let validation = validateRanking(this.extractToolInput(response), ranked);
+            let source: RankSource = 'master-judge';
+
+            if (validation.errors.length > 0) {
+                console.log(`⚠️  Invalid master judge ranking, retrying: ${validation.errors.join('; ')}`);
+
+                messages.push(...this.buildRepairMessages(response, validation.errors, RANKING_TOOL_NAME, 'ranking'));
+                response = await this.callClaude({ messages, seed, tool, settings, cache });
+                this.priceTable.record(usage, response);
+                const retried = validateRanking(this.extractToolInput(response), ranked);
+
+                // Keep whichever answer placed more projects
+                if (retried.entries.length >= validation.entries.length) {
+                    validation = retried;
+                    source = 'master-judge-retry';
+                }
+            }
+
+            if (validation.errors.length > 0) {
+                // The placed entries come from an answer that failed validation, so they aren't labelled as a valid ranking
+                console.log(`⚠️  Master judge ranking still invalid, placing ${ranked.length - validation.entries.length} projects by average score: ${validation.errors.join('; ')}`);
+                return { evaluations: mergeRanking(ranked, validation.entries, 'master-judge-partial'), usage, validationErrors: validation.errors };
+            }
+
+            return { evaluations: mergeRanking(ranked, validation.entries, source), usage };
+        } catch (error) {
+            console.error('❌ Error getting final ranking, using fallback ranking by average score:', error);
+            return { evaluations: mergeRanking(ranked, [], 'average-score'), usage };
+        }
+    }
+
+    private buildRankingTool(evaluations: ProjectEvaluation[]): ClaudeTool {
+        return {
+            name: RANKING_TOOL_NAME,
+            description: 'Submit the final ranking of all hackathon projects',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    rankings: {
+                        type: 'array',
+                        minItems: evaluations.length,
+                        maxItems: evaluations.length,
+                        items: {
+                            type: 'object',
+                            properties: {
+                                projectId: { type: 'string', enum: evaluations.map(evaluation => evaluation.projectId), description: 'ID of the project' },
+                                projectName: { type: 'string', description: 'Name of the project' },
+                                rank: { type: 'integer', minimum: 1, maximum: evaluations.length, description: '1 is the best project' },
+                                reasoning: { type: 'string', description: 'Why this project ranked here' }
+                            },
+                            required: ['projectId', 'projectName', 'rank', 'reasoning']
+                        }
+                    }
+                },
+                required: ['rankings']
+            }
+        };
+    }
+
+    /**
+     * Ranks with a tournament of pairwise comparisons instead of a single
+     * prompt, using the master judge's settings for every comparison.
+     */
+    getPairwiseRanking(evaluations: ProjectEvaluation[], seed: number, rounds?: number, settings?: ModelSettings, cache?: CacheMode, bootstrapSamples?: number): Promise<MasterRanking> {
+        return this.pairwiseRanker.rank(evaluations, seed, rounds || PairwiseRanker.defaultRounds(evaluations.length), settings, cache, bootstrapSamples);
+    }
+
+    /** Decides the event's special awards from the ranked evaluations, using the master judge's settings. */
+    decideAwards(awards: AwardCategory[], evaluations: ProjectEvaluation[], seed: number, settings?: ModelSettings, cache?: CacheMode): Promise<AwardResult[]> {
+        return Promise.all(awards.map(award => this.awardJudge.decide(award, evaluations, seed, settings, cache)));
+    }
+}
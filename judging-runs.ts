@@ -0,0 +1,332 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { JudgingPipeline } from './judging-pipeline';
+import { ProjectStore } from './project-store';
+import { JudgingRun, JudgingRunEvent, JudgingRunRequest, ProjectChunkNotes } from './judging-types';
+import { addUsage, emptyUsage } from './usage-accounting';
+import { DEFAULT_PRIZE_COUNT, flagCloseCalls } from './score-statistics';
+import { normalizeScores, summarizeJudges } from './score-normalization';
+import { blendScores, DEFAULT_BLEND, HumanScoreStore } from './human-judging';
+import { judgesForTrack, rankTracksByOverall } from './tracks';
+import { detectTechnologies } from './technology-detection';
+
+export type JudgingRunListener = (event: JudgingRunEvent) => void;
+
+/**
+ * Durable queue of judging runs. Each run is persisted as a JSON file after
+ * every project, so a server restart resumes unfinished runs where they
+ * stopped instead of starting over.
+ */
+export class JudgingRunQueue {
+    private readonly pending: string[] = [];
+    private readonly emitter = new EventEmitter();
+    private processing = false;
+    private activeRun: JudgingRun | null = null;
+
+    constructor(
+        private readonly runsDir: string,
+        private readonly projectStore: ProjectStore,
+        private readonly humanScores: HumanScoreStore,
+        private readonly pipeline: JudgingPipeline
+    ) {
+        // One listener per open progress stream
+        this.emitter.setMaxListeners(0);
+    }
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.runsDir, { recursive: true });
+
+        const entries = await fs.readdir(this.runsDir);
+        const unfinished: JudgingRun[] = [];
+
+        for (const entry of entries) {
+            if (!entry.endsWith('.json')) continue;
+
+            const run = await this.getRun(entry.replace(/\.json$/, ''));
+            if (run && (run.status === 'queued' || run.status === 'running')) {
+                unfinished.push(run);
+            }
+        }
+
+        unfinished.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        if (unfinished.length > 0) {
+            console.log(`🔁 Resuming ${unfinished.length} unfinished judging run(s)`);
+        }
+
+        for (const run of unfinished) {
+            this.enqueue(run.id);
+        }
+    }
+
+    async createRun(request: JudgingRunRequest): Promise<JudgingRun> {
+        const now = new Date().toISOString();
+        const run: JudgingRun = {
+            id: randomUUID(),
+            status: 'queued',
+            projectIds: request.projectIds,
+            judges: request.judges,
+            seed: request.seed || 12345,
+            masterJudge: request.masterJudge,
+            cache: request.cache,
+            mapReduce: request.mapReduce,
+            ranking: request.ranking,
+            samplesPerJudge: request.samplesPerJudge,
+            prizeCount: request.prizeCount,
+            normalization: request.normalization,
+            blend: request.blend,
+            event: request.event,
+            technologySignatures: request.technologySignatures,
+            evaluations: [],
+            events: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.saveRun(run);
+        console.log(`🗂️  Queued judging run ${run.id}: ${run.projectIds.length} projects, ${run.judges.length} judges`);
+
+        this.enqueue(run.id);
+        return run;
+    }
+
+    async getRun(id: string): Promise<JudgingRun | null> {
+        if (!ProjectStore.isValidId(id)) {
+            return null;
+        }
+
+        // The run in progress has events that are not on disk yet
+        if (this.activeRun && this.activeRun.id === id) {
+            return this.activeRun;
+        }
+
+        try {
+            const content = await fs.readFile(this.getRunPath(id), 'utf-8');
+            return JSON.parse(content) as JudgingRun;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error reading judging run ${id}:`, error);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Registers a listener for new events of a run. Returns the unsubscribe
+     * function. Past events are available on the persisted run.
+     */
+    subscribe(runId: string, listener: JudgingRunListener): () => void {
+        this.emitter.on(runId, listener);
+        return () => {
+            this.emitter.off(runId, listener);
+        };
+    }
+
+    private recordEvent(run: JudgingRun, event: Omit<JudgingRunEvent, 'id' | 'timestamp'>): void {
+        if (!run.events) run.events = [];
+
+        const recorded: JudgingRunEvent = {
+            id: run.events.length + 1,
+            timestamp: new Date().toISOString(),
+            ...event
+        };
+
+        run.events.push(recorded);
+        this.emitter.emit(run.id, recorded);
+    }
+
+    private enqueue(runId: string): void {
+        this.pending.push(runId);
+        this.processNext().catch(error => {
+            console.error('❌ Judging queue error:', error);
+        });
+    }
+
+    private async processNext(): Promise<void> {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            while (this.pending.length > 0) {
+                const runId = this.pending.shift()!;
+                const run = await this.getRun(runId);
+                if (!run) {
+                    console.error(`❌ Judging run ${runId} disappeared from disk, skipping`);
+                    continue;
+                }
+
+                this.activeRun = run;
+                try {
+                    await this.processRun(run);
+                } catch (error) {
+                    console.error(`❌ Judging run ${run.id} failed:`, error);
+                    run.status = 'failed';
+                    run.error = error instanceof Error ? error.message : 'Unknown error';
+                    this.recordEvent(run, { type: 'run-finished', status: run.status, error: run.error });
+                    await this.saveRun(run);
+                } finally {
+                    this.activeRun = null;
+                }
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private async processRun(run: JudgingRun): Promise<void> {
+        const startTime = Date.now();
+        run.status = 'running';
+        run.startedAt = run.startedAt || new Date().toISOString();
+
+        // A resumed run already announced itself before the restart
+        if (!run.events?.some(event => event.type === 'run-started')) {
+            const projects = await Promise.all(run.projectIds.map(async id => {
+                const project = await this.projectStore.get(id);
+                return { id, name: project ? project.name : `Missing project ${id}` };
+            }));
+            this.recordEvent(run, {
+                type: 'run-started',
+                projects,
+                judges: run.judges.map(judge => ({ id: judge.id, name: judge.name }))
+            });
+        }
+        await this.saveRun(run);
+
+        console.log(`🏁 Starting judging run ${run.id} for ${run.projectIds.length} projects with ${run.judges.length} judges`);
+
+        for (const projectId of run.projectIds) {
+            // Skip projects already evaluated before a restart
+            if (run.evaluations.some(evaluation => evaluation.projectId === projectId)) {
+                continue;
+            }
+
+            const project = await this.projectStore.get(projectId);
+            if (!project) {
+                console.error(`❌ Project ${projectId} not found for run ${run.id}`);
+                const projectName = `Missing project ${projectId}`;
+                run.evaluations.push(this.pipeline.createFallbackEvaluation(projectId, projectName, run.judges, 'Project not found'));
+                for (const judge of run.judges) {
+                    this.recordEvent(run, { type: 'judge-failed', projectId, projectName, judgeId: judge.id, judgeName: judge.name, error: 'Project not found' });
+                }
+                this.recordEvent(run, { type: 'project-completed', projectId, projectName });
+                await this.saveRun(run);
+                continue;
+            }
+
+            this.recordEvent(run, { type: 'project-started', projectId, projectName: project.name });
+            const judges = judgesForTrack(run.judges, project.track);
+            const technologies = detectTechnologies(project.files, run.technologySignatures ?? []);
+
+            try {
+                let chunkNotes: ProjectChunkNotes | undefined;
+                if (run.mapReduce) {
+                    chunkNotes = await this.pipeline.writeChunkNotes(project, run.mapReduce, run.seed, run.cache);
+                    const failedChunks = chunkNotes.chunks.filter(note => note.failed).length;
+                    this.recordEvent(run, {
+                        type: 'chunk-notes-completed',
+                        projectId,
+                        projectName: project.name,
+                        chunks: chunkNotes.chunks.length,
+                        error: failedChunks > 0 ? `${failedChunks} of ${chunkNotes.chunks.length} chunks could not be summarized` : undefined
+                    });
+                }
+
+                run.evaluations.push({ ...await this.pipeline.evaluateProject(project, judges, run.seed, ({ judge, result, error }) => {
+                    this.recordEvent(run, {
+                        type: error ? 'judge-failed' : 'judge-completed',
+                        projectId,
+                        projectName: project.name,
+                        judgeId: judge.id,
+                        judgeName: judge.name,
+                        score: result.score ?? undefined,
+                        error
+                    });
+                }, {
+                    cache: run.cache,
+                    chunkNotes,
+                    samples: run.samplesPerJudge,
+                    humanScores: await this.humanScores.listForProject(projectId),
+                    event: run.event
+                }), technologies });
+            } catch (projectError) {
+                console.error(`❌ Error processing project ${project.name}:`, projectError);
+                run.evaluations.push({
+                    ...this.pipeline.createFallbackEvaluation(
+                        project.id,
+                        project.name,
+                        judges,
+                        projectError instanceof Error ? projectError.message : 'Unknown error',
+                        project.track
+                    ),
+                    technologies
+                });
+            }
+
+            this.updateUsage(run);
+            this.recordEvent(run, { type: 'project-completed', projectId, projectName: project.name });
+            await this.saveRun(run);
+        }
+
+        // Calibrate the judges before anything averages their scores
+        run.judgeDistributions = summarizeJudges(run.evaluations);
+        normalizeScores(run.evaluations, run.normalization ?? 'none');
+        if (run.judges.some(judge => judge.kind === 'human')) {
+            blendScores(run.evaluations, run.blend ?? DEFAULT_BLEND);
+        }
+
+        console.log(`🎯 Completed individual evaluations for run ${run.id}, starting master judge ranking`);
+        this.recordEvent(run, { type: 'master-ranking-started' });
+
+        const tracks = run.event?.tracks ?? [];
+        const ranking = run.ranking?.strategy === 'pairwise' ?
+            await this.pipeline.getPairwiseRanking(run.evaluations, run.seed, run.ranking.rounds, run.masterJudge, run.cache, run.ranking.bootstrapSamples) :
+            await this.pipeline.getFinalRanking(run.evaluations, run.seed, run.masterJudge, run.cache, tracks);
+        run.evaluations = ranking.evaluations;
+        if (run.ranking?.strategy === 'pairwise') {
+            // Tournament ratings are comparable across tracks, so each track keeps the overall order
+            rankTracksByOverall(run.evaluations, tracks);
+        }
+        run.masterJudgeUsage = ranking.usage;
+        run.comparisons = ranking.comparisons;
+        run.rankingErrors = ranking.validationErrors;
+        flagCloseCalls(run.evaluations, run.prizeCount ?? DEFAULT_PRIZE_COUNT);
+
+        // Award passes run on the master judge's settings, so their usage is counted as the master judge's
+        if (run.event?.awards && run.event.awards.length > 0) {
+            run.awards = await this.pipeline.decideAwards(run.event.awards, run.evaluations, run.seed, run.masterJudge, run.cache);
+            for (const award of run.awards) {
+                run.masterJudgeUsage = addUsage(run.masterJudgeUsage ?? emptyUsage(), award.usage);
+            }
+        }
+        this.updateUsage(run);
+        run.status = 'completed';
+        run.completedAt = new Date().toISOString();
+        this.recordEvent(run, { type: 'run-finished', status: run.status });
+        await this.saveRun(run);
+
+        console.log(`🏆 Judging run ${run.id} completed in ${Date.now() - startTime}ms, estimated cost $${run.usage!.costUsd.toFixed(4)}`);
+    }
+
+    private updateUsage(run: JudgingRun): void {
+        const total = emptyUsage();
+        for (const evaluation of run.evaluations) {
+            addUsage(total, evaluation.usage);
+        }
+        run.usage = addUsage(total, run.masterJudgeUsage);
+    }
+
+    private async saveRun(run: JudgingRun): Promise<void> {
+        run.updatedAt = new Date().toISOString();
+
+        // Write to a temp file first so a crash never leaves a half-written run
+        const runPath = this.getRunPath(run.id);
+        const tempPath = `${runPath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(run), 'utf-8');
+        await fs.rename(tempPath, runPath);
+    }
+
+    private getRunPath(id: string): string {
+        return join(this.runsDir, `${id}.json`);
+    }
+}
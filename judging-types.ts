@@ -0,0 +1,418 @@
+// Shared types for the server-side judging pipeline
+
+export interface ProjectFile {
+    name: string;
+    content: string;
+    type: string;
+    size: number;
+    path: string;
+}
+
+// What the team tells the judges about a project at upload time
+export interface ProjectDetails {
+    description?: string;
+    track?: string; // ID of one of the event's tracks
+}
+
+export interface StoredProject extends ProjectDetails {
+    id: string;
+    name: string;
+    files: ProjectFile[];
+    droppedSummary?: string[];
+    createdAt: string;
+}
+
+export interface EventTrack {
+    id: string;
+    name: string;
+    description?: string;
+}
+
+// The hackathon itself, available to judge prompts as {{event.*}} template variables
+export interface EventConfig {
+    name: string;
+    theme: string;
+    rules: string;
+    judgingStart?: string; // ISO date (YYYY-MM-DD)
+    judgingEnd?: string;
+    tracks: EventTrack[];
+    awards?: AwardCategory[];
+}
+
+// How an award is decided: a master judge pass over the evaluations, or one judge's highest score
+export type AwardMethod = 'master-judge' | 'judge-top-score';
+
+export interface AwardCategory {
+    id: string;
+    name: string; // e.g. "Best UX"
+    criteria: string; // What the award recognizes, given to the master judge
+    method: AwardMethod;
+    judgeId?: string; // judge-top-score only
+    tracks?: string[]; // Only projects in these tracks are eligible; all projects when empty
+    minScore?: number; // Only projects whose average score is at least this are eligible
+    requiredTechnologies?: string[]; // IDs of technology signatures a project must be detected using, e.g. a sponsor's SDK
+}
+
+// How to recognize a technology such as a sponsor's SDK or API in a project's files
+export interface TechnologySignature {
+    id: string;
+    name: string;
+    packages?: string[]; // Dependency names in manifests (package.json, requirements.txt, go.mod, ...)
+    imports?: string[]; // Module names in import statements; submodules match too
+    endpoints?: string[]; // Strings such as API hostnames, matched anywhere in source files
+}
+
+export type TechnologyEvidenceKind = 'dependency' | 'import' | 'endpoint';
+
+export interface TechnologyEvidence {
+    kind: TechnologyEvidenceKind;
+    path: string;
+    line: number; // 1-based
+    text: string; // The matching line, trimmed
+}
+
+export interface DetectedTechnology {
+    technologyId: string;
+    name: string;
+    evidence: TechnologyEvidence[]; // Capped; evidenceCount has the full count
+    evidenceCount: number;
+}
+
+export interface AwardResult {
+    awardId: string;
+    awardName: string;
+    method: AwardMethod;
+    eligibleProjectIds: string[];
+    winnerProjectId?: string; // Missing when no project was eligible or the decision failed
+    winnerProjectName?: string;
+    justification: string;
+    runnersUp?: string[]; // Project IDs, best first (master-judge only)
+    judgeName?: string; // Judge whose top score decided the award (judge-top-score only)
+    usage?: UsageTotals;
+    error?: string;
+}
+
+export interface JudgeCriterion {
+    id: string;
+    name: string;
+    description?: string;
+    maxPoints: number;
+    weight?: number; // Relative weight, defaults to maxPoints
+}
+
+// Per-call Claude overrides, validated against the server's model allowlist
+export interface ModelSettings {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    systemPrompt?: string;
+}
+
+// AI judges are model calls; human judges submit their scores through the UI or an import
+export type JudgeKind = 'ai' | 'human';
+
+export interface Judge extends ModelSettings {
+    id: string;
+    name: string;
+    description: string;
+    prompt: string; // For human judges, guidance shown on the scoring form
+    criteria?: JudgeCriterion[];
+    kind?: JudgeKind; // Defaults to "ai"
+    enabled?: boolean; // false keeps the judge on a panel but out of runs
+    tracks?: string[]; // IDs of the event tracks this judge evaluates; all projects when empty
+}
+
+// A named, reusable set of judges, stored on the server
+export interface JudgePanel {
+    id: string;
+    name: string;
+    judges: Judge[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// The versioned file a judge panel is exported to and imported from
+export interface JudgePanelFile {
+    format: string; // Always JUDGE_PANEL_FORMAT
+    version: number;
+    name: string;
+    exportedAt?: string;
+    judges: Judge[];
+}
+
+// A human judge's assessment of one project, in the shape of a judge result
+export interface HumanScore {
+    projectId: string;
+    judgeId: string;
+    judgeName: string;
+    score: number;
+    summary: string;
+    likes: string[];
+    dislikes: string[];
+    submittedAt: string;
+}
+
+export interface CriterionScore {
+    criterionId: string;
+    criterionName: string;
+    score: number;
+    maxPoints: number;
+    justification: string;
+}
+
+// Token usage and estimated cost of one or more Claude calls
+export interface UsageTotals {
+    calls: number;
+    cachedCalls: number; // Answered from the response cache, not billed
+    unpricedCalls: number; // Models missing from the price table, not included in costUsd
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+export interface ContextManifestEntry {
+    path: string;
+    status: 'included' | 'elided' | 'outlined' | 'summarized' | 'dropped' | 'binary';
+    tokens: number; // Estimated tokens sent to the model
+    originalTokens: number;
+    elidedLines?: number;
+}
+
+// Exactly which files a judge saw after packing the project into the model's context window
+export interface ContextManifest {
+    model: string;
+    contextWindow: number;
+    budgetTokens: number;
+    usedTokens: number;
+    mapTokens: number; // Tokens spent on the repository map that leads the prompt
+    includedFiles: number;
+    elidedFiles: number;
+    outlinedFiles: number;
+    summarizedFiles?: number; // Files the judge only saw through chunk notes (map-reduce mode)
+    droppedFiles: number;
+    files: ContextManifestEntry[];
+}
+
+// Spread of a judge's scores over independent samples of the same evaluation
+export interface ScoreStats {
+    samples: number; // Samples that produced a score
+    failedSamples: number;
+    scores: number[];
+    median: number;
+    mean: number;
+    stdDev: number;
+    low: number; // 95% interval of the mean
+    high: number;
+}
+
+// Interval of a project's average judge score, from the judges' sample spreads
+export interface ScoreInterval {
+    mean: number;
+    low: number;
+    high: number;
+}
+
+export interface JudgeResult {
+    judgeId: string;
+    judgeName: string;
+    summary: string;
+    score: number | null; // null when the evaluation failed
+    likes: string[];
+    dislikes: string[];
+    criteriaScores?: CriterionScore[];
+    failed?: boolean;
+    error?: string;
+    usage?: UsageTotals;
+    context?: ContextManifest;
+    scoreStats?: ScoreStats; // Only with more than one sample per judge
+    normalizedScore?: number; // Calibrated against the judge's other scores in the run, 1-10
+    kind?: JudgeKind; // Set to "human" for human judges
+}
+
+// Relative weights of the AI and human judges' average scores in the blended score
+export interface BlendWeights {
+    ai: number;
+    human: number;
+}
+
+// How each judge's scores are calibrated across the cohort before averaging
+export type ScoreNormalization = 'none' | 'z-score' | 'rank';
+
+// How one judge scored the whole cohort, to spot lenient or harsh judges
+export interface JudgeDistribution {
+    judgeId: string;
+    judgeName: string;
+    count: number; // Projects scored
+    mean: number;
+    median: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    offset: number; // Mean minus the mean of all judges' scores; positive is lenient
+}
+
+// Settings for map-reduce mode: a cheap model writes notes per chunk of files and judges score from the notes
+export interface MapReduceSettings extends ModelSettings {
+    chunkTokens?: number; // Estimated source tokens per chunk
+}
+
+export interface ChunkNote {
+    index: number;
+    files: string[]; // Paths, with line ranges for files split across chunks
+    tokens: number;
+    purpose: string; // What the code in the chunk does
+    qualitySignals: string[];
+    issues: string[];
+    model?: string;
+    failed?: boolean;
+    error?: string;
+}
+
+export interface ProjectChunkNotes {
+    chunks: ChunkNote[];
+    usage: UsageTotals;
+}
+
+export type RankingStrategy = 'master-judge' | 'pairwise';
+
+// How a project's final rank was derived
+export type RankSource =
+    | 'master-judge' // Valid on the master judge's first answer
+    | 'master-judge-retry' // Valid after re-prompting with the problems found
+    | 'master-judge-partial' // Placed by a master judge ranking that stayed invalid after the retry
+    | 'fuzzy-match' // The master judge's name for the project only approximately matched
+    | 'average-score' // Filled in by average judge score
+    | 'pairwise';
+
+export interface RankingSettings {
+    strategy: RankingStrategy;
+    rounds?: number; // Swiss rounds for the pairwise strategy
+    bootstrapSamples?: number; // Refits behind the pairwise rank confidences; 0 skips them
+}
+
+// One head-to-head decision; every pair is compared in both orders to cancel position bias
+export interface PairwiseComparison {
+    round: number;
+    projectA: string; // Project ID shown first
+    projectB: string;
+    winner: 'A' | 'B' | 'tie' | null; // null when the comparison failed
+    reasoning: string;
+    error?: string;
+}
+
+export interface ProjectEvaluation {
+    projectId: string;
+    projectName: string;
+    judgeResults: JudgeResult[];
+    finalRank?: number;
+    rating?: number; // Elo-scale Bradley-Terry rating (pairwise strategy)
+    rankConfidence?: number; // Share of bootstrap resamples that give the same rank, 0-1 (pairwise strategy)
+    rankSource?: RankSource;
+    rankReasoning?: string; // The master judge's reasoning for this rank
+    usage?: UsageTotals;
+    chunkNotes?: ProjectChunkNotes; // Only in map-reduce mode
+    scoreInterval?: ScoreInterval;
+    tooCloseToCall?: boolean; // Interval overlaps a neighbour's across a prize boundary
+    aiScore?: number; // Average of the AI judges, set when the run has human judges
+    humanScore?: number; // Average of the human judges who scored the project
+    blendedScore?: number; // Weighted blend of aiScore and humanScore
+    disagreement?: number; // Absolute difference between aiScore and humanScore
+    aiHumanDisagree?: boolean; // The difference is large enough to review
+    track?: string; // ID of the project's event track
+    trackRank?: number; // Rank within the track's leaderboard
+    trackRankReasoning?: string; // The master judge's reasoning for the track rank
+    technologies?: DetectedTechnology[]; // From the run's technology signatures
+}
+
+// How a Claude call uses the response cache: read and write, write only, or neither
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+export type JudgingRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JudgingRunRequest {
+    projectIds: string[];
+    judges: Judge[];
+    seed?: number;
+    masterJudge?: ModelSettings;
+    cache?: CacheMode;
+    mapReduce?: MapReduceSettings; // Enables map-reduce mode
+    ranking?: RankingSettings; // Defaults to the master judge
+    samplesPerJudge?: number; // Independent evaluations per judge and project, default 1
+    prizeCount?: number; // Places with a prize, for "too close to call" flags; default 3
+    normalization?: ScoreNormalization; // Defaults to "none"
+    blend?: BlendWeights; // Defaults to equal weights when the run has human judges
+    event?: EventConfig; // Set by the server from the stored event configuration
+    technologySignatures?: TechnologySignature[]; // Set by the server from the stored signature list
+}
+
+export type JudgingRunEventType =
+    | 'run-started'
+    | 'project-started'
+    | 'chunk-notes-completed'
+    | 'judge-completed'
+    | 'judge-failed'
+    | 'project-completed'
+    | 'master-ranking-started'
+    | 'run-finished';
+
+export interface JudgingRunEvent {
+    id: number;
+    type: JudgingRunEventType;
+    timestamp: string;
+    projectId?: string;
+    projectName?: string;
+    judgeId?: string;
+    judgeName?: string;
+    score?: number;
+    error?: string;
+    chunks?: number; // Chunks summarized, on chunk-notes-completed
+    status?: JudgingRunStatus;
+    projects?: Array<{ id: string; name: string }>;
+    judges?: Array<{ id: string; name: string }>;
+}
+
+export interface JudgingRun {
+    id: string;
+    status: JudgingRunStatus;
+    projectIds: string[];
+    judges: Judge[];
+    seed: number;
+    masterJudge?: ModelSettings;
+    cache?: CacheMode;
+    mapReduce?: MapReduceSettings;
+    ranking?: RankingSettings;
+    samplesPerJudge?: number;
+    prizeCount?: number;
+    normalization?: ScoreNormalization;
+    blend?: BlendWeights;
+    event?: EventConfig; // Snapshot taken when the run was created, so a resumed run renders the same prompts
+    awards?: AwardResult[]; // Decided after the ranking, in the event's award order
+    technologySignatures?: TechnologySignature[]; // Snapshot of the signatures the projects were checked against
+    judgeDistributions?: JudgeDistribution[];
+    evaluations: ProjectEvaluation[];
+    events: JudgingRunEvent[];
+    usage?: UsageTotals; // All calls of the run, including the master judge
+    masterJudgeUsage?: UsageTotals;
+    comparisons?: PairwiseComparison[];
+    rankingErrors?: string[]; // Problems of a master judge ranking that stayed invalid after the retry
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+}
+
+export type ResultsExportFormat = 'csv' | 'json' | 'xlsx' | 'markdown';
+
+// The JSON export of a run's results, for spreadsheets and other tools to read
+export interface ResultsFile {
+    format: string; // Always RESULTS_FORMAT
+    version: number;
+    runId: string;
+    exportedAt: string;
+    completedAt?: string;
+    event?: EventConfig;
+    judges: Array<Pick<Judge, 'id' | 'name' | 'kind'>>;
+    evaluations: ProjectEvaluation[];
+    awards?: AwardResult[];
+}
@@ -0,0 +1,229 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ClaudeMessage, ClaudeTool, ClaudeToolUse } from './judging-pipeline';
+import { createRandom } from './math-utils';
+
+export interface LLMRequest {
+    model: string;
+    maxTokens: number;
+    temperature?: number;
+    system: string;
+    messages: ClaudeMessage[];
+    tool?: ClaudeTool; // When set, the model must answer by calling this tool
+    sample?: number; // Index of an independent sample of the same prompt; keys caches and fixtures, never sent to the model
+}
+
+export interface LLMUsage {
+    input_tokens: number;
+    output_tokens: number;
+}
+
+export interface LLMResponse {
+    content: string;
+    usage: LLMUsage;
+    toolUse?: ClaudeToolUse;
+}
+
+/**
+ * A source of model completions. Errors should carry an HTTP `status` (and
+ * `headers` when available) so the resilient caller can classify them.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'anthropic';
+    private readonly anthropic: Anthropic;
+
+    constructor(apiKey: string, baseURL?: string) {
+        // Retries are handled by the resilient caller, so the SDK must not retry on its own
+        this.anthropic = new Anthropic({
+            apiKey,
+            baseURL: baseURL || undefined,
+            maxRetries: 0
+        });
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.anthropic.messages.create({
+            model: request.model,
+            max_tokens: request.maxTokens,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            messages: request.messages as Anthropic.MessageParam[],
+            system: request.system,
+            ...(request.tool ? {
+                tools: [request.tool as Anthropic.Tool],
+                tool_choice: { type: 'tool' as const, name: request.tool.name }
+            } : {})
+        });
+
+        const textBlock = response.content.find(block => block.type === 'text');
+        const toolBlock = response.content.find(block => block.type === 'tool_use');
+
+        return {
+            content: textBlock && textBlock.type === 'text' ? textBlock.text : '',
+            usage: { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens },
+            toolUse: toolBlock && toolBlock.type === 'tool_use' ?
+                { id: toolBlock.id, name: toolBlock.name, input: toolBlock.input } :
+                undefined
+        };
+    }
+}
+
+interface Fixture {
+    hash: string;
+    recordedAt: string;
+    model: string;
+    response: LLMResponse;
+}
+
+/**
+ * Deterministic provider for demos and tests without network access or an
+ * API key. Responses are looked up by a hash of the prompt in the fixtures
+ * directory. When a recorder provider is given, misses are forwarded to it
+ * and saved as new fixtures; otherwise a canned response is synthesized
+ * from the hash, so the same prompt always gets the same answer.
+ */
+export class ReplayProvider implements LLMProvider {
+    readonly name: string;
+
+    constructor(private readonly fixturesDir: string, private readonly recorder?: LLMProvider) {
+        this.name = recorder ? `record (${recorder.name})` : 'replay';
+    }
+
+    /**
+     * The hash covers what the model sees, not which model answers, so a
+     * fixture recorded before a failover still replays afterwards.
+     */
+    static hashRequest(request: LLMRequest): string {
+        return createHash('sha256')
+            .update(JSON.stringify({
+                system: request.system,
+                messages: request.messages,
+                tool: request.tool ? { name: request.tool.name, input_schema: request.tool.input_schema } : null,
+                // Only later samples change the hash, so fixtures recorded before sampling still match
+                ...(request.sample ? { sample: request.sample } : {})
+            }))
+            .digest('hex');
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const hash = ReplayProvider.hashRequest(request);
+        const fixturePath = join(this.fixturesDir, `${hash}.json`);
+
+        try {
+            const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8')) as Fixture;
+            console.log(`📼 Replaying recorded response ${hash.substring(0, 12)}`);
+            return fixture.response;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error reading fixture ${hash}:`, error);
+            }
+        }
+
+        if (this.recorder) {
+            const response = await this.recorder.complete(request);
+            const fixture: Fixture = { hash, recordedAt: new Date().toISOString(), model: request.model, response };
+            await fs.mkdir(this.fixturesDir, { recursive: true });
+            await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2), 'utf-8');
+            console.log(`📼 Recorded response ${hash.substring(0, 12)}`);
+            return response;
+        }
+
+        console.log(`📼 No fixture for ${hash.substring(0, 12)}, using a synthesized offline response`);
+        return this.synthesize(request, hash);
+    }
+
+    private synthesize(request: LLMRequest, hash: string): LLMResponse {
+        const random = createRandom(parseInt(hash.substring(0, 8), 16));
+        const usage = { input_tokens: 0, output_tokens: 0 };
+
+        if (request.tool) {
+            return {
+                content: '',
+                usage,
+                toolUse: {
+                    id: `toolu_offline_${hash.substring(0, 16)}`,
+                    name: request.tool.name,
+                    input: this.synthesizeValue(request.tool.input_schema, 'input', random)
+                }
+            };
+        }
+
+        return {
+            content: `Offline response ${hash.substring(0, 12)}: no recorded response exists for this prompt.`,
+            usage
+        };
+    }
+
+    /** Builds a value that satisfies the JSON schema, choosing enums, numbers and booleans with the seeded generator. */
+    private synthesizeValue(schema: Record<string, any>, name: string, random: () => number): any {
+        if (!schema || typeof schema !== 'object') return null;
+        if (schema.const !== undefined) return schema.const;
+        if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[Math.floor(random() * schema.enum.length)];
+
+        switch (schema.type) {
+            case 'object': {
+                const value: Record<string, any> = {};
+                for (const [key, property] of Object.entries<Record<string, any>>(schema.properties || {})) {
+                    value[key] = this.synthesizeValue(property, key, random);
+                }
+                return value;
+            }
+            case 'array': {
+                // Alternatives (e.g. one shape per rubric criterion) are each covered once
+                const branches: Record<string, any>[] = schema.items?.anyOf || [];
+                if (branches.length > 0) {
+                    return branches.map(branch => this.synthesizeValue(branch, name, random));
+                }
+                const count = Math.min(Math.max(schema.minItems || 0, 2), schema.maxItems ?? Infinity);
+
+                // Picks from a list of IDs (e.g. runners-up) are distinct
+                if (Array.isArray(schema.items?.enum)) {
+                    return this.shuffle(schema.items.enum, random).slice(0, count);
+                }
+
+                // A fixed-length list whose items each take one of as many IDs, like a ranking, becomes a permutation
+                const properties = Object.entries<Record<string, any>>(schema.items?.properties || {});
+                const ids = properties.find(([, property]) => Array.isArray(property.enum) && property.enum.length === count);
+                if (schema.minItems === count && schema.maxItems === count && ids) {
+                    const order = this.shuffle(ids[1].enum, random);
+                    return order.map((id, index) => {
+                        const item = this.synthesizeValue(schema.items, `${name} ${index + 1}`, random);
+                        item[ids[0]] = id;
+                        for (const [key, property] of properties) {
+                            if (property.type === 'integer' && property.minimum === 1 && property.maximum === count) item[key] = index + 1;
+                        }
+                        return item;
+                    });
+                }
+
+                return Array.from({ length: count }, (_, index) => this.synthesizeValue(schema.items, `${name} ${index + 1}`, random));
+            }
+            case 'number':
+            case 'integer': {
+                const minimum = typeof schema.minimum === 'number' ? schema.minimum : 0;
+                const maximum = typeof schema.maximum === 'number' ? schema.maximum : minimum + 10;
+                const value = minimum + random() * (maximum - minimum);
+                return schema.type === 'integer' ? Math.round(value) : Math.round(value * 10) / 10;
+            }
+            case 'boolean':
+                return random() < 0.5;
+            default:
+                return `Offline ${name} (no model was called)`;
+        }
+    }
+
+    private shuffle<T>(values: T[], random: () => number): T[] {
+        const shuffled = [...values];
+        for (let index = shuffled.length - 1; index > 0; index--) {
+            const swap = Math.floor(random() * (index + 1));
+            [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+        }
+        return shuffled;
+    }
+}
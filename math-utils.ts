@@ -0,0 +1,17 @@
+// Small numeric helpers shared by the scoring, ranking and offline modules
+
+export function round(value: number, digits: number = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+}
+
+/** mulberry32: a small seeded generator, so anything drawn from it is reproducible for a seed */
+export function createRandom(seed: number): () => number {
+    let state = seed | 0;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,139 @@
+import { ModelSettings } from './judging-types';
+
+export interface AllowedModel {
+    id: string;
+    maxTokens: number; // Largest output budget a caller may request
+    contextWindow: number; // Input plus output tokens the model accepts
+}
+
+export interface ModelSettingsValidation {
+    settings: ModelSettings;
+    errors: string[];
+}
+
+export const DEFAULT_MAX_TOKENS = 2000;
+
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+const MAX_SYSTEM_PROMPT_LENGTH = 20000;
+
+const DEFAULT_ALLOWED_MODELS: AllowedModel[] = [
+    { id: 'claude-3-5-sonnet-20241022', maxTokens: 8192, contextWindow: 200000 },
+    { id: 'claude-3-5-haiku-20241022', maxTokens: 8192, contextWindow: 200000 },
+    { id: 'claude-3-7-sonnet-20250219', maxTokens: 16000, contextWindow: 200000 },
+    { id: 'claude-sonnet-4-20250514', maxTokens: 16000, contextWindow: 200000 },
+    { id: 'claude-opus-4-20250514', maxTokens: 16000, contextWindow: 200000 }
+];
+
+/**
+ * Server-side list of models that judges may request, with their output
+ * token ceilings. Clients can only pick from this list.
+ */
+export class ModelAllowlist {
+    private readonly models = new Map<string, AllowedModel>();
+
+    constructor(models: AllowedModel[] = DEFAULT_ALLOWED_MODELS) {
+        for (const model of models) {
+            this.models.set(model.id, model);
+        }
+    }
+
+    /**
+     * Parses a comma-separated list of "model", "model:maxTokens" or
+     * "model:maxTokens:contextWindow" entries, e.g.
+     * "claude-3-5-haiku-20241022:4096,claude-sonnet-4-20250514".
+     */
+    static fromEnv(value: string | undefined): ModelAllowlist {
+        if (!value || !value.trim()) {
+            return new ModelAllowlist();
+        }
+
+        const models: AllowedModel[] = [];
+        for (const entry of value.split(',').map(item => item.trim()).filter(item => item)) {
+            const [id, limit, window] = entry.split(':').map(part => part.trim());
+            const maxTokens = parseInt(limit || '', 10);
+            const contextWindow = parseInt(window || '', 10);
+            models.push({
+                id,
+                maxTokens: maxTokens > 0 ? maxTokens : 8192,
+                contextWindow: contextWindow > 0 ? contextWindow : DEFAULT_CONTEXT_WINDOW
+            });
+        }
+
+        return new ModelAllowlist(models);
+    }
+
+    /** Makes sure configured default and fallback models are always usable. */
+    ensure(id: string): void {
+        if (!this.models.has(id)) {
+            this.models.set(id, { id, maxTokens: 8192, contextWindow: DEFAULT_CONTEXT_WINDOW });
+        }
+    }
+
+    list(): AllowedModel[] {
+        return Array.from(this.models.values());
+    }
+
+    getMaxTokens(id: string): number {
+        return this.models.get(id)?.maxTokens ?? DEFAULT_MAX_TOKENS;
+    }
+
+    getContextWindow(id: string): number {
+        return this.models.get(id)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    }
+
+    /**
+     * Checks caller-supplied overrides. Unknown fields are dropped; invalid
+     * values are reported so the request can be rejected rather than
+     * silently changed.
+     */
+    validate(input: unknown, label: string): ModelSettingsValidation {
+        const settings: ModelSettings = {};
+        const errors: string[] = [];
+
+        if (input === undefined || input === null) {
+            return { settings, errors };
+        }
+
+        if (typeof input !== 'object') {
+            return { settings, errors: [`${label}: settings must be an object`] };
+        }
+
+        const raw = input as Record<string, unknown>;
+
+        if (raw.model !== undefined && raw.model !== null && raw.model !== '') {
+            if (typeof raw.model !== 'string' || !this.models.has(raw.model)) {
+                errors.push(`${label}: model "${raw.model}" is not allowed (allowed: ${Array.from(this.models.keys()).join(', ')})`);
+            } else {
+                settings.model = raw.model;
+            }
+        }
+
+        if (raw.temperature !== undefined && raw.temperature !== null) {
+            if (typeof raw.temperature !== 'number' || raw.temperature < 0 || raw.temperature > 1) {
+                errors.push(`${label}: temperature must be a number between 0 and 1`);
+            } else {
+                settings.temperature = raw.temperature;
+            }
+        }
+
+        if (raw.maxTokens !== undefined && raw.maxTokens !== null) {
+            const ceiling = settings.model ? this.getMaxTokens(settings.model) : Math.max(...this.list().map(model => model.maxTokens));
+            if (typeof raw.maxTokens !== 'number' || !Number.isInteger(raw.maxTokens) || raw.maxTokens < 1 || raw.maxTokens > ceiling) {
+                errors.push(`${label}: maxTokens must be an integer between 1 and ${ceiling}`);
+            } else {
+                settings.maxTokens = raw.maxTokens;
+            }
+        }
+
+        if (raw.systemPrompt !== undefined && raw.systemPrompt !== null && raw.systemPrompt !== '') {
+            if (typeof raw.systemPrompt !== 'string' || raw.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+                errors.push(`${label}: systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`);
+            } else {
+                settings.systemPrompt = raw.systemPrompt;
+            }
+        }
+
+        return { settings, errors };
+    }
+}
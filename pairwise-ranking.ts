@@ -0,0 +1,296 @@
+import { CacheMode, ModelSettings, PairwiseComparison, ProjectEvaluation, UsageTotals } from './judging-types';
+import { ClaudeCaller, ClaudeTool, ContextLimitResolver, MasterRanking } from './judging-pipeline';
+import { estimateTokens, SYSTEM_PROMPT_RESERVE_TOKENS, truncateToTokens } from './context-packer';
+import { emptyUsage, PriceTable } from './usage-accounting';
+import { getAverageScore, mergeRanking } from './ranking-reconciliation';
+import { createRandom } from './math-utils';
+
+export const MAX_PAIRWISE_ROUNDS = 20;
+
+const COMPARISON_TOOL_NAME = 'submit_comparison';
+
+// Bootstrap resamples used to estimate how stable each rank is. Every one is
+// a full refit, so the default stays low to keep the server responsive.
+export const DEFAULT_BOOTSTRAP_SAMPLES = 50;
+export const MAX_BOOTSTRAP_SAMPLES = 200;
+
+const COMPARISON_PROMPT = `You are the master judge for a hackathon. Compare the two projects below head to head, using the evaluations written by the individual judges, and decide which project is stronger overall. Answer "tie" only if they are genuinely indistinguishable. The order in which the projects are listed says nothing about their quality.`;
+
+const COMPARISON_TOOL: ClaudeTool = {
+    name: COMPARISON_TOOL_NAME,
+    description: 'Submit which of the two projects is stronger',
+    input_schema: {
+        type: 'object',
+        properties: {
+            winner: { type: 'string', enum: ['A', 'B', 'tie'], description: 'The stronger project' },
+            reasoning: { type: 'string', description: 'Why this project is stronger' }
+        },
+        required: ['winner', 'reasoning']
+    }
+};
+
+export interface PairwiseGame {
+    a: number; // Index of the project shown first
+    b: number;
+    scoreA: number; // 1 win, 0.5 tie, 0 loss
+}
+
+/** The judges' evaluations of a project, as master judge prompts show them. */
+export function formatEvaluation(evaluation: ProjectEvaluation): string {
+    return `Project: ${evaluation.projectName}\n${typeof evaluation.humanScore === 'number' ? `Blended score: ${evaluation.blendedScore}/10 (AI judges ${evaluation.aiScore ?? 'n/a'}, human judges ${evaluation.humanScore})\n` : ''}${evaluation.judgeResults.map(result => `
+- ${result.judgeName}${result.kind === 'human' ? ' [human judge]' : ''} (${result.failed ? `Evaluation failed: ${result.error}` : `Score: ${result.score}/10${typeof result.normalizedScore === 'number' ? `, normalized ${result.normalizedScore}/10` : ''}`})${result.criteriaScores && result.criteriaScores.length > 0 ? `
+  Rubric: ${result.criteriaScores.map(criterion => `${criterion.criterionName} ${criterion.score}/${criterion.maxPoints}`).join(', ')}` : ''}
+  Summary: ${result.summary}
+  Likes: ${result.likes.join(', ')}
+  Dislikes: ${result.dislikes.join(', ')}`).join('\n')}`;
+}
+
+// The same key for a pair in either order
+function pairKey(a: number, b: number): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Fits Bradley-Terry strengths with the minorization-maximization algorithm.
+ * Ties count as half a win for each side, and every project plays one
+ * virtual drawn game against an average opponent so unbeaten projects keep
+ * a finite strength. Starting from earlier strengths, such as the point
+ * estimate for a bootstrap refit, converges in fewer iterations.
+ */
+export function fitBradleyTerry(count: number, games: PairwiseGame[], initial?: number[]): number[] {
+    const wins = new Array(count).fill(0.5);
+    for (const game of games) {
+        wins[game.a] += game.scoreA;
+        wins[game.b] += 1 - game.scoreA;
+    }
+
+    let strengths = initial && initial.length === count ? [...initial] : new Array(count).fill(1);
+    for (let iteration = 0; iteration < 500; iteration++) {
+        const next = strengths.map((strength, index) => {
+            let denominator = 1 / (strength + 1);
+            for (const game of games) {
+                if (game.a === index) denominator += 1 / (strength + strengths[game.b]);
+                else if (game.b === index) denominator += 1 / (strength + strengths[game.a]);
+            }
+            return wins[index] / denominator;
+        });
+
+        // Keep the geometric mean at 1 so strengths stay comparable between fits
+        const logMean = next.reduce((sum, strength) => sum + Math.log(strength), 0) / count;
+        const normalized = next.map(strength => strength / Math.exp(logMean));
+        const change = Math.max(...normalized.map((strength, index) => Math.abs(strength - strengths[index])));
+        strengths = normalized;
+        if (change < 1e-9) break;
+    }
+
+    return strengths;
+}
+
+/** Elo-scale rating for a Bradley-Terry strength, centred on 1500. */
+export function toRating(strength: number): number {
+    return Math.round(1500 + 400 * Math.log10(strength));
+}
+
+/**
+ * Ranks projects with a Swiss-style tournament of pairwise comparisons
+ * instead of one prompt over every project. Each round pairs projects of
+ * similar current strength that have not met yet, and every pair is judged
+ * in both orders to cancel position bias. A Bradley-Terry fit over all
+ * decisions gives the final order; bootstrap resampling of the decisions
+ * gives a confidence per rank.
+ */
+export class PairwiseRanker {
+    constructor(
+        private readonly callClaude: ClaudeCaller,
+        private readonly priceTable: PriceTable,
+        private readonly resolveContextLimits: ContextLimitResolver
+    ) {}
+
+    static defaultRounds(projectCount: number): number {
+        return Math.max(1, Math.ceil(Math.log2(Math.max(2, projectCount))) + 1);
+    }
+
+    async rank(
+        evaluations: ProjectEvaluation[],
+        seed: number,
+        rounds: number,
+        settings?: ModelSettings,
+        cache?: CacheMode,
+        bootstrapSamples = DEFAULT_BOOTSTRAP_SAMPLES
+    ): Promise<MasterRanking> {
+        const ranked = evaluations.map(evaluation => ({ ...evaluation }));
+        const usage = emptyUsage();
+        const comparisons: PairwiseComparison[] = [];
+        const games: PairwiseGame[] = [];
+
+        if (ranked.length < 2) {
+            ranked.forEach(evaluation => {
+                evaluation.finalRank = 1;
+                evaluation.rankConfidence = 1;
+                evaluation.rankSource = 'pairwise';
+            });
+            return { evaluations: ranked, usage, comparisons };
+        }
+
+        const limits = this.resolveContextLimits(settings || {});
+        const evaluationTokens = Math.floor((limits.contextWindow - limits.maxOutputTokens - SYSTEM_PROMPT_RESERVE_TOKENS -
+            estimateTokens(COMPARISON_PROMPT + JSON.stringify(COMPARISON_TOOL) + (settings?.systemPrompt || ''))) / 2);
+        const texts = ranked.map(evaluation => truncateToTokens(
+            formatEvaluation(evaluation),
+            Math.max(0, evaluationTokens),
+            '\n... [EVALUATION TRUNCATED TO FIT THE CONTEXT WINDOW] ...'
+        ));
+
+        const played = new Set<string>();
+        let strengths = new Array(ranked.length).fill(1);
+
+        console.log(`⚔️  Pairwise ranking of ${ranked.length} projects over ${rounds} rounds`);
+
+        for (let round = 1; round <= rounds; round++) {
+            const pairs = this.pairRound(ranked, strengths, played, round === 1);
+            if (pairs.length === 0) {
+                console.log(`⚔️  No new pairings left after ${round - 1} rounds`);
+                break;
+            }
+
+            // Both orders of every pair, so a preference for the first-listed project cancels out
+            const matches = pairs.flatMap(([first, second]) => [[first, second], [second, first]]);
+            const results = await Promise.all(matches.map(([a, b]) =>
+                this.compare(ranked, texts, a, b, round, seed, usage, settings, cache)
+            ));
+
+            results.forEach((comparison, index) => {
+                comparisons.push(comparison);
+                if (comparison.winner) {
+                    const [a, b] = matches[index];
+                    games.push({ a, b, scoreA: comparison.winner === 'A' ? 1 : comparison.winner === 'B' ? 0 : 0.5 });
+                    // Only a decided pair counts as met, so a failed comparison can be paired again next round
+                    played.add(pairKey(a, b));
+                }
+            });
+
+            strengths = fitBradleyTerry(ranked.length, games);
+        }
+
+        if (games.length === 0) {
+            console.error('❌ Every pairwise comparison failed, using fallback ranking by average score');
+            return { evaluations: mergeRanking(ranked, [], 'average-score'), usage, comparisons };
+        }
+
+        const order = this.orderByStrength(ranked, strengths);
+        const confidences = await this.bootstrapConfidence(ranked, games, strengths, order, seed, bootstrapSamples);
+
+        order.forEach((index, position) => {
+            ranked[index].finalRank = position + 1;
+            ranked[index].rating = toRating(strengths[index]);
+            ranked[index].rankConfidence = confidences[index];
+            ranked[index].rankSource = 'pairwise';
+        });
+
+        return { evaluations: order.map(index => ranked[index]), usage, comparisons };
+    }
+
+    /**
+     * Pairs neighbours in the current standings, skipping pairs that already
+     * met. The first round pairs by average judge score instead.
+     */
+    private pairRound(evaluations: ProjectEvaluation[], strengths: number[], played: Set<string>, firstRound: boolean): Array<[number, number]> {
+        const standings = firstRound ?
+            evaluations.map((_, index) => index).sort((a, b) => getAverageScore(evaluations[b]) - getAverageScore(evaluations[a]) || a - b) :
+            this.orderByStrength(evaluations, strengths);
+
+        const unpaired = [...standings];
+        const pairs: Array<[number, number]> = [];
+
+        while (unpaired.length > 1) {
+            const first = unpaired.shift()!;
+            const opponentIndex = unpaired.findIndex(candidate => !played.has(pairKey(first, candidate)));
+            if (opponentIndex === -1) continue; // Has met everyone left this round
+
+            const [second] = unpaired.splice(opponentIndex, 1);
+            pairs.push([first, second]);
+        }
+
+        return pairs;
+    }
+
+    private async compare(
+        evaluations: ProjectEvaluation[],
+        texts: string[],
+        a: number,
+        b: number,
+        round: number,
+        seed: number,
+        usage: UsageTotals,
+        settings?: ModelSettings,
+        cache?: CacheMode
+    ): Promise<PairwiseComparison> {
+        const comparison: PairwiseComparison = {
+            round,
+            projectA: evaluations[a].projectId,
+            projectB: evaluations[b].projectId,
+            winner: null,
+            reasoning: ''
+        };
+
+        const prompt = `${COMPARISON_PROMPT}\n\nProject A:\n${texts[a]}\n\nProject B:\n${texts[b]}\n\nSubmit your decision by calling the ${COMPARISON_TOOL_NAME} tool.`;
+
+        try {
+            const response = await this.callClaude({ messages: [{ role: 'user', content: prompt }], seed, tool: COMPARISON_TOOL, settings, cache });
+            this.priceTable.record(usage, response);
+
+            const input = response.toolUse?.input;
+            if (!input || !['A', 'B', 'tie'].includes(input.winner)) {
+                throw new Error(`No decision was submitted with the ${COMPARISON_TOOL_NAME} tool`);
+            }
+
+            comparison.winner = input.winner;
+            comparison.reasoning = typeof input.reasoning === 'string' ? input.reasoning : '';
+        } catch (error) {
+            console.error(`❌ Error comparing ${evaluations[a].projectName} with ${evaluations[b].projectName}:`, error);
+            comparison.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        return comparison;
+    }
+
+    /**
+     * Refits on resampled decisions and counts how often each project keeps
+     * its rank. Yields to the event loop between refits so progress events
+     * and other requests aren't held up. Without samples nothing is measured.
+     */
+    private async bootstrapConfidence(
+        evaluations: ProjectEvaluation[],
+        games: PairwiseGame[],
+        strengths: number[],
+        order: number[],
+        seed: number,
+        samples: number
+    ): Promise<Array<number | undefined>> {
+        if (samples <= 0) return evaluations.map(() => undefined);
+
+        const random = createRandom(seed);
+        const sameRank = new Array(evaluations.length).fill(0);
+
+        for (let sample = 0; sample < samples; sample++) {
+            await new Promise(resolve => setImmediate(resolve));
+            const resampled = games.map(() => games[Math.floor(random() * games.length)]);
+            const sampleOrder = this.orderByStrength(evaluations, fitBradleyTerry(evaluations.length, resampled, strengths));
+            sampleOrder.forEach((index, position) => {
+                if (order[position] === index) sameRank[index]++;
+            });
+        }
+
+        return sameRank.map(count => Math.round(count / samples * 100) / 100);
+    }
+
+    private orderByStrength(evaluations: ProjectEvaluation[], strengths: number[]): number[] {
+        return evaluations
+            .map((_, index) => index)
+            .sort((a, b) =>
+                strengths[b] - strengths[a] ||
+                getAverageScore(evaluations[b]) - getAverageScore(evaluations[a]) ||
+                evaluations[a].projectName.localeCompare(evaluations[b].projectName)
+            );
+    }
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { ProjectDetails, ProjectFile, StoredProject } from './judging-types';
+
+/**
+ * Keeps uploaded projects on disk so judging runs can reference them by ID
+ * and survive a server restart.
+ */
+export class ProjectStore {
+    constructor(private readonly projectsDir: string) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.projectsDir, { recursive: true });
+    }
+
+    async save(name: string, files: ProjectFile[], droppedSummary?: string[], details: ProjectDetails = {}): Promise<StoredProject> {
+        const project: StoredProject = {
+            id: randomUUID(),
+            name,
+            files,
+            droppedSummary,
+            ...details,
+            createdAt: new Date().toISOString()
+        };
+
+        await fs.writeFile(this.getProjectPath(project.id), JSON.stringify(project), 'utf-8');
+        console.log(`💾 Stored project "${name}" as ${project.id} (${files.length} files)`);
+
+        return project;
+    }
+
+    async get(id: string): Promise<StoredProject | null> {
+        if (!ProjectStore.isValidId(id)) {
+            return null;
+        }
+
+        try {
+            const content = await fs.readFile(this.getProjectPath(id), 'utf-8');
+            return JSON.parse(content) as StoredProject;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error reading stored project ${id}:`, error);
+            }
+            return null;
+        }
+    }
+
+    static isValidId(id: string): boolean {
+        return typeof id === 'string' && /^[a-zA-Z0-9-]+$/.test(id);
+    }
+
+    private getProjectPath(id: string): string {
+        return join(this.projectsDir, `${id}.json`);
+    }
+}
@@ -0,0 +1,93 @@
+import { EventConfig, StoredProject } from './judging-types';
+
+// Descriptions longer than this are cut when taken from the README
+const MAX_README_DESCRIPTION_CHARS = 600;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export type TemplateContext = Record<string, string | undefined>;
+
+export const TEMPLATE_VARIABLES = [
+    'event.name',
+    'event.theme',
+    'event.rules',
+    'event.tracks',
+    'event.judgingStart',
+    'event.judgingEnd',
+    'project.name',
+    'project.description',
+    'project.track'
+];
+
+export const EMPTY_EVENT: EventConfig = { name: '', theme: '', rules: '', tracks: [] };
+
+/**
+ * First prose paragraph of the project's top-level README, skipping headings,
+ * badges and images, for projects uploaded without a description.
+ */
+export function describeFromReadme(project: StoredProject): string | undefined {
+    const readme = project.files
+        .filter(file => /(^|\/)readme(\.(md|markdown|txt|rst))?$/i.test(file.path))
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+    if (!readme) return undefined;
+
+    const paragraph = readme.content
+        .split(/\r?\n\s*\r?\n/)
+        .map(block => block.trim())
+        .find(block => block && !/^(#|!\[|\[!\[|<|```|---|===)/.test(block));
+    if (!paragraph) return undefined;
+
+    const text = paragraph.replace(/\s+/g, ' ');
+    return text.length > MAX_README_DESCRIPTION_CHARS ? `${text.slice(0, MAX_README_DESCRIPTION_CHARS)}...` : text;
+}
+
+export function buildTemplateContext(event: EventConfig, project: StoredProject): TemplateContext {
+    const track = event.tracks.find(candidate => candidate.id === project.track);
+    const blankToUndefined = (value: string | undefined) => value && value.trim() ? value.trim() : undefined;
+
+    return {
+        'event.name': blankToUndefined(event.name),
+        'event.theme': blankToUndefined(event.theme),
+        'event.rules': blankToUndefined(event.rules),
+        'event.tracks': event.tracks.length > 0 ?
+            event.tracks.map(candidate => `- ${candidate.name}${candidate.description ? `: ${candidate.description}` : ''}`).join('\n') :
+            undefined,
+        'event.judgingStart': event.judgingStart,
+        'event.judgingEnd': event.judgingEnd,
+        'project.name': project.name,
+        'project.description': blankToUndefined(project.description) || describeFromReadme(project),
+        'project.track': track?.name
+    };
+}
+
+export function findTemplateVariables(template: string): string[] {
+    return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+/** Replaces every {{variable}}; call checkTemplate first, since unknown or empty variables render as ''. */
+export function renderTemplate(template: string, context: TemplateContext): string {
+    return template.replace(VARIABLE_PATTERN, (_, name: string) => context[name] ?? '');
+}
+
+/**
+ * Lists the problems that would leave a hole in a rendered prompt: variables
+ * that don't exist, and variables with no value for some of the projects.
+ */
+export function checkTemplate(template: string, contexts: TemplateContext[], label: string): string[] {
+    const errors: string[] = [];
+
+    for (const name of findTemplateVariables(template)) {
+        if (!TEMPLATE_VARIABLES.includes(name)) {
+            errors.push(`${label}: unknown template variable {{${name}}} (available: ${TEMPLATE_VARIABLES.map(variable => `{{${variable}}}`).join(', ')})`);
+            continue;
+        }
+
+        const missing = contexts.filter(context => context[name] === undefined);
+        if (missing.length > 0) {
+            const subject = name.startsWith('project.') ? ` for ${missing.map(context => context['project.name']).join(', ')}` : '';
+            errors.push(`${label}: {{${name}}} is not defined${subject}`);
+        }
+    }
+
+    return errors;
+}
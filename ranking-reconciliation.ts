@@ -0,0 +1,176 @@
+import { ProjectEvaluation, RankSource } from './judging-types';
+
+export interface RankingEntry {
+    projectId: string;
+    rank: number;
+    reasoning: string;
+    fuzzy: boolean; // Matched by a similar rather than an identical name
+}
+
+export interface RankingValidation {
+    entries: RankingEntry[]; // Only the usable entries
+    errors: string[]; // Problems to send back to the model
+}
+
+// Names at least this similar (0-1) match when no other project comes close
+const FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Prefers the AI/human blend when the run has human judges, and normalized scores when it calibrates judges
+export function getAverageScore(evaluation: ProjectEvaluation): number {
+    if (typeof evaluation.blendedScore === 'number') return evaluation.blendedScore;
+
+    const scores = evaluation.judgeResults
+        .map(result => result.normalizedScore ?? result.score)
+        .filter((score): score is number => typeof score === 'number' && score >= 1 && score <= 10);
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+    const length = Math.max(a.length, b.length);
+    return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Finds the project a ranking entry refers to: by ID, then by exact or
+ * normalized name, then by the single closest name above the threshold.
+ */
+function matchProject(item: any, evaluations: ProjectEvaluation[]): { evaluation: ProjectEvaluation; fuzzy: boolean } | null {
+    if (typeof item.projectId === 'string') {
+        const byId = evaluations.find(evaluation => evaluation.projectId === item.projectId.trim());
+        if (byId) return { evaluation: byId, fuzzy: false };
+    }
+
+    if (typeof item.projectName !== 'string' || !item.projectName.trim()) {
+        return null;
+    }
+
+    const byName = evaluations.find(evaluation => evaluation.projectName === item.projectName.trim()) ||
+        evaluations.find(evaluation => normalizeName(evaluation.projectName) === normalizeName(item.projectName));
+    if (byName) return { evaluation: byName, fuzzy: false };
+
+    const scored = evaluations
+        .map(evaluation => ({ evaluation, similarity: similarity(normalizeName(evaluation.projectName), normalizeName(item.projectName)) }))
+        .sort((a, b) => b.similarity - a.similarity);
+    const [best, runnerUp] = scored;
+    if (best && best.similarity >= FUZZY_MATCH_THRESHOLD && (!runnerUp || runnerUp.similarity < best.similarity)) {
+        return { evaluation: best.evaluation, fuzzy: true };
+    }
+
+    return null;
+}
+
+/**
+ * Checks a master judge ranking against the real projects: every entry must
+ * match a project, ranks must be integers from 1 to the number of projects,
+ * and together they must form a complete permutation. Problems are returned
+ * as messages the model can act on; usable entries are kept either way.
+ */
+export function validateRanking(raw: any, evaluations: ProjectEvaluation[]): RankingValidation {
+    if (!raw || !Array.isArray(raw.rankings)) {
+        return { entries: [], errors: ['"rankings" must be an array with one entry per project'] };
+    }
+
+    const entries: RankingEntry[] = [];
+    const errors: string[] = [];
+    const count = evaluations.length;
+
+    for (const item of raw.rankings) {
+        if (!item || typeof item !== 'object') {
+            errors.push('every ranking entry must be an object with projectId, projectName, rank and reasoning');
+            continue;
+        }
+
+        const label = item.projectName || item.projectId || JSON.stringify(item);
+        const match = matchProject(item, evaluations);
+        if (!match) {
+            errors.push(`"${label}" does not match any project`);
+            continue;
+        }
+
+        const { evaluation, fuzzy } = match;
+        if (entries.some(entry => entry.projectId === evaluation.projectId)) {
+            errors.push(`${evaluation.projectName} is ranked more than once`);
+            continue;
+        }
+
+        if (typeof item.rank !== 'number' || !Number.isInteger(item.rank) || item.rank < 1 || item.rank > count) {
+            errors.push(`${evaluation.projectName} has rank ${JSON.stringify(item.rank)}, but ranks must be whole numbers from 1 to ${count}`);
+            continue;
+        }
+
+        const holder = entries.find(entry => entry.rank === item.rank);
+        if (holder) {
+            const holderName = evaluations.find(candidate => candidate.projectId === holder.projectId)?.projectName;
+            errors.push(`rank ${item.rank} is given to both ${holderName} and ${evaluation.projectName}; every rank must be used exactly once`);
+            continue;
+        }
+
+        entries.push({
+            projectId: evaluation.projectId,
+            rank: item.rank,
+            reasoning: typeof item.reasoning === 'string' ? item.reasoning : '',
+            fuzzy
+        });
+    }
+
+    const missing = evaluations.filter(evaluation => !entries.some(entry => entry.projectId === evaluation.projectId));
+    if (missing.length > 0) {
+        errors.push(`these projects are missing from the ranking: ${missing.map(evaluation => evaluation.projectName).join(', ')}`);
+    }
+
+    return { entries, errors: Array.from(new Set(errors)) };
+}
+
+/**
+ * Applies the usable entries at their ranks and fills the remaining ranks
+ * with the other projects by average judge score. Returns the evaluations
+ * in final order, each flagged with how its rank was derived.
+ */
+export function mergeRanking(evaluations: ProjectEvaluation[], entries: RankingEntry[], source: RankSource): ProjectEvaluation[] {
+    const slots: Array<ProjectEvaluation | null> = new Array(evaluations.length).fill(null);
+
+    for (const entry of entries) {
+        const evaluation = evaluations.find(candidate => candidate.projectId === entry.projectId);
+        if (!evaluation || slots[entry.rank - 1]) continue;
+
+        // A partial ranking's flag matters more than how its entries were matched
+        const valid = source === 'master-judge' || source === 'master-judge-retry';
+        evaluation.rankSource = entry.fuzzy && valid ? 'fuzzy-match' : source;
+        evaluation.rankReasoning = entry.reasoning || undefined;
+        slots[entry.rank - 1] = evaluation;
+    }
+
+    const leftovers = evaluations
+        .filter(evaluation => !slots.includes(evaluation))
+        .sort((a, b) => getAverageScore(b) - getAverageScore(a));
+
+    for (let index = 0; index < slots.length; index++) {
+        if (slots[index]) continue;
+
+        const evaluation = leftovers.shift()!;
+        evaluation.rankSource = 'average-score';
+        evaluation.rankReasoning = undefined;
+        slots[index] = evaluation;
+    }
+
+    return slots.map((evaluation, index) => {
+        evaluation!.finalRank = index + 1;
+        return evaluation!;
+    });
+}
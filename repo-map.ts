@@ -0,0 +1,163 @@
+import { ProjectFile } from './judging-types';
+
+export interface OutlineSymbol {
+    kind: string;
+    name: string;
+    signature: string; // The declaration line, trimmed
+}
+
+interface OutlinePattern {
+    kind: string;
+    pattern: RegExp; // First capture group is the symbol name
+}
+
+const LANGUAGES: Record<string, string> = {
+    '.ts': 'TypeScript', '.tsx': 'TypeScript', '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+    '.py': 'Python', '.go': 'Go', '.rs': 'Rust', '.java': 'Java', '.kt': 'Kotlin', '.cs': 'C#', '.rb': 'Ruby', '.php': 'PHP',
+    '.swift': 'Swift', '.c': 'C', '.h': 'C', '.cpp': 'C++', '.hpp': 'C++', '.dart': 'Dart', '.vue': 'Vue', '.svelte': 'Svelte',
+    '.html': 'HTML', '.css': 'CSS', '.scss': 'SCSS', '.md': 'Markdown', '.json': 'JSON', '.yml': 'YAML', '.yaml': 'YAML',
+    '.toml': 'TOML', '.sql': 'SQL', '.sh': 'Shell', '.txt': 'Text'
+};
+
+const JS_PATTERNS: OutlinePattern[] = [
+    { kind: 'function', pattern: /^export\s+(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/ },
+    { kind: 'class', pattern: /^export\s+(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'interface', pattern: /^export\s+interface\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'type', pattern: /^export\s+type\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'enum', pattern: /^export\s+(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'const', pattern: /^export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'function', pattern: /^module\.exports\.([A-Za-z_$][\w$]*)\s*=/ },
+    { kind: 'function', pattern: /^exports\.([A-Za-z_$][\w$]*)\s*=/ },
+    // Files without exports (browser scripts) still have top-level declarations worth listing
+    { kind: 'function', pattern: /^(?:async\s+)?function\s+([A-Za-z_$][\w$]*)/ },
+    { kind: 'class', pattern: /^class\s+([A-Za-z_$][\w$]*)/ }
+];
+
+const OUTLINE_PATTERNS: Record<string, OutlinePattern[]> = {
+    TypeScript: JS_PATTERNS,
+    JavaScript: JS_PATTERNS,
+    Python: [
+        { kind: 'function', pattern: /^(?:async\s+)?def\s+([A-Za-z]\w*)/ },
+        { kind: 'class', pattern: /^class\s+([A-Za-z]\w*)/ }
+    ],
+    Go: [
+        { kind: 'function', pattern: /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/ },
+        { kind: 'type', pattern: /^type\s+([A-Z]\w*)/ }
+    ],
+    Rust: [
+        { kind: 'function', pattern: /^pub\s+(?:async\s+)?fn\s+(\w+)/ },
+        { kind: 'struct', pattern: /^pub\s+struct\s+(\w+)/ },
+        { kind: 'enum', pattern: /^pub\s+enum\s+(\w+)/ },
+        { kind: 'trait', pattern: /^pub\s+trait\s+(\w+)/ }
+    ],
+    Java: [
+        { kind: 'class', pattern: /^public\s+(?:(?:abstract|final|static)\s+)*(?:class|interface|enum|record)\s+(\w+)/ },
+        { kind: 'method', pattern: /^\s{4}public\s+(?:(?:static|final|abstract|synchronized)\s+)*[\w<>\[\],\s]+\s+(\w+)\s*\(/ }
+    ],
+    Kotlin: [
+        { kind: 'class', pattern: /^(?:(?:data|sealed|abstract|open)\s+)*class\s+(\w+)/ },
+        { kind: 'function', pattern: /^fun\s+(?:<[^>]*>\s*)?(\w+)/ }
+    ],
+    'C#': [
+        { kind: 'class', pattern: /^\s*public\s+(?:(?:abstract|sealed|static|partial)\s+)*(?:class|interface|record|struct|enum)\s+(\w+)/ }
+    ],
+    Ruby: [
+        { kind: 'class', pattern: /^(?:class|module)\s+([A-Z]\w*)/ },
+        { kind: 'method', pattern: /^\s{0,2}def\s+(?:self\.)?(\w+[?!]?)/ }
+    ],
+    PHP: [
+        { kind: 'class', pattern: /^(?:(?:abstract|final)\s+)?class\s+(\w+)/ },
+        { kind: 'function', pattern: /^function\s+(\w+)/ }
+    ],
+    Swift: [
+        { kind: 'type', pattern: /^(?:public\s+|open\s+)?(?:final\s+)?(?:class|struct|enum|protocol)\s+(\w+)/ },
+        { kind: 'function', pattern: /^(?:public\s+)?func\s+(\w+)/ }
+    ],
+    Dart: [
+        { kind: 'class', pattern: /^(?:abstract\s+)?class\s+(\w+)/ }
+    ]
+};
+
+const MAX_SYMBOLS_PER_FILE = 40;
+const MAX_SIGNATURE_LENGTH = 160;
+
+export function getLanguage(path: string): string | null {
+    const lower = path.toLowerCase();
+    const dot = lower.lastIndexOf('.');
+    return dot === -1 ? null : LANGUAGES[lower.substring(dot)] || null;
+}
+
+/** Lists the exported (or top-level) functions, classes and types of a source file. */
+export function outlineFile(file: ProjectFile): OutlineSymbol[] {
+    const language = getLanguage(file.path || file.name);
+    const patterns = language ? OUTLINE_PATTERNS[language] : undefined;
+    if (!patterns || !file.content) return [];
+
+    const symbols: OutlineSymbol[] = [];
+    const seen = new Set<string>();
+
+    for (const line of file.content.split('\n')) {
+        for (const { kind, pattern } of patterns) {
+            const match = pattern.exec(line);
+            if (!match) continue;
+
+            const key = `${kind}:${match[1]}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                const signature = line.trim().replace(/\s*\{\s*$/, '');
+                symbols.push({
+                    kind,
+                    name: match[1],
+                    signature: signature.length > MAX_SIGNATURE_LENGTH ? `${signature.substring(0, MAX_SIGNATURE_LENGTH)}…` : signature
+                });
+            }
+            break;
+        }
+
+        if (symbols.length >= MAX_SYMBOLS_PER_FILE) break;
+    }
+
+    return symbols;
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Renders a directory tree of every file with its size and language, and
+ * the names of the symbols each source file declares. It leads the judge
+ * prompt so judges know about files whose contents did not fit.
+ */
+export function buildRepoMap(files: ProjectFile[]): string {
+    const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const lines = [`Repository map (${files.length} files, ${formatSize(totalSize)}):`];
+    const openDirectories: string[] = [];
+
+    for (const file of sorted) {
+        const parts = file.path.split('/').filter(part => part);
+        const directories = parts.slice(0, -1);
+
+        // Close directories that this file is not in, then open the new ones
+        let depth = 0;
+        while (depth < openDirectories.length && depth < directories.length && openDirectories[depth] === directories[depth]) {
+            depth++;
+        }
+        openDirectories.length = depth;
+        for (; depth < directories.length; depth++) {
+            lines.push(`${'  '.repeat(depth + 1)}${directories[depth]}/`);
+            openDirectories.push(directories[depth]);
+        }
+
+        const language = getLanguage(file.path);
+        const symbols = outlineFile(file);
+        const details = [formatSize(file.size), language].filter(item => item).join(', ');
+        const symbolList = symbols.length > 0 ? ` - ${symbols.map(symbol => `${symbol.kind} ${symbol.name}`).join(', ')}` : '';
+        lines.push(`${'  '.repeat(directories.length + 1)}${parts[parts.length - 1] || file.name} (${details})${symbolList}`);
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CacheMode } from './judging-types';
+import { LLMRequest, LLMResponse } from './llm-provider';
+
+export interface ResponseCacheOptions {
+    ttlMs: number;
+    maxBytes: number;
+}
+
+interface CacheEntry {
+    key: string;
+    createdAt: string;
+    model: string; // Model that actually answered, which may be a fallback
+    response: LLMResponse;
+}
+
+interface CacheIndexEntry {
+    size: number;
+    createdAt: number;
+}
+
+export const CACHE_MODES: CacheMode[] = ['use', 'refresh', 'bypass'];
+
+/**
+ * Content-addressed cache of model responses on disk. Identical prompts with
+ * identical parameters are answered from disk instead of being billed again.
+ * Entries expire after ttlMs and the oldest ones are evicted once the cache
+ * grows beyond maxBytes.
+ */
+export class ResponseCache {
+    private readonly index = new Map<string, CacheIndexEntry>();
+    private totalBytes = 0;
+
+    constructor(private readonly cacheDir: string, private readonly options: ResponseCacheOptions) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.cacheDir, { recursive: true });
+
+        for (const entry of await fs.readdir(this.cacheDir)) {
+            if (!entry.endsWith('.json')) continue;
+
+            const stats = await fs.stat(join(this.cacheDir, entry));
+            this.index.set(entry.replace(/\.json$/, ''), { size: stats.size, createdAt: stats.mtimeMs });
+            this.totalBytes += stats.size;
+        }
+
+        await this.evict();
+        console.log(`🗄️  Response cache: ${this.index.size} entries, ${(this.totalBytes / 1024 / 1024).toFixed(2)}MB`);
+    }
+
+    /** The key covers the provider, model, sampling parameters, sample index and the full prompt. */
+    static createKey(provider: string, request: LLMRequest): string {
+        return createHash('sha256')
+            .update(JSON.stringify({
+                provider,
+                model: request.model,
+                maxTokens: request.maxTokens,
+                temperature: request.temperature ?? null,
+                system: request.system,
+                messages: request.messages,
+                tool: request.tool || null,
+                ...(request.sample ? { sample: request.sample } : {})
+            }))
+            .digest('hex');
+    }
+
+    async get(key: string): Promise<{ model: string; response: LLMResponse } | null> {
+        const indexed = this.index.get(key);
+        if (!indexed) return null;
+
+        if (Date.now() - indexed.createdAt > this.options.ttlMs) {
+            await this.remove(key);
+            return null;
+        }
+
+        try {
+            const entry = JSON.parse(await fs.readFile(this.getEntryPath(key), 'utf-8')) as CacheEntry;
+            return { model: entry.model, response: entry.response };
+        } catch (error) {
+            console.error(`❌ Error reading cached response ${key}:`, error);
+            await this.remove(key);
+            return null;
+        }
+    }
+
+    async set(key: string, model: string, response: LLMResponse): Promise<void> {
+        const entry: CacheEntry = { key, createdAt: new Date().toISOString(), model, response };
+        const content = JSON.stringify(entry);
+
+        // Replace rather than double count an existing entry
+        if (this.index.has(key)) {
+            await this.remove(key);
+        }
+
+        await fs.writeFile(this.getEntryPath(key), content, 'utf-8');
+        const size = Buffer.byteLength(content, 'utf-8');
+        this.index.set(key, { size, createdAt: Date.now() });
+        this.totalBytes += size;
+
+        await this.evict();
+    }
+
+    private async evict(): Promise<void> {
+        const now = Date.now();
+        for (const [key, entry] of this.index) {
+            if (now - entry.createdAt > this.options.ttlMs) {
+                await this.remove(key);
+            }
+        }
+
+        if (this.totalBytes <= this.options.maxBytes) return;
+
+        const oldestFirst = Array.from(this.index.entries()).sort((a, b) => a[1].createdAt - b[1].createdAt);
+        for (const [key] of oldestFirst) {
+            if (this.totalBytes <= this.options.maxBytes) break;
+            await this.remove(key);
+        }
+    }
+
+    private async remove(key: string): Promise<void> {
+        const entry = this.index.get(key);
+        if (!entry) return;
+
+        this.index.delete(key);
+        this.totalBytes -= entry.size;
+
+        try {
+            await fs.unlink(this.getEntryPath(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`❌ Error removing cached response ${key}:`, error);
+            }
+        }
+    }
+
+    private getEntryPath(key: string): string {
+        return join(this.cacheDir, `${key}.json`);
+    }
+}
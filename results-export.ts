@@ -0,0 +1,226 @@
+import * as yazl from 'yazl';
+import { csvCell } from './csv';
+import { JudgeResult, JudgingRun, ProjectEvaluation, ResultsExportFormat, ResultsFile } from './judging-types';
+import { getAverageScore } from './ranking-reconciliation';
+import { UsageReport } from './usage-accounting';
+
+export const RESULTS_FORMAT = 'hackathon-judge-results';
+
+// Bump when the file layout changes in a way older readers can't handle
+export const RESULTS_VERSION = 1;
+
+export const RESULTS_EXPORT_FORMATS: ResultsExportFormat[] = ['csv', 'json', 'xlsx', 'markdown'];
+
+// Excel rejects longer sheet names
+const MAX_SHEET_NAME_CHARS = 31;
+
+type Cell = string | number | undefined;
+
+/** Evaluations in the order of the overall ranking, unranked projects last. */
+function rankedEvaluations(run: JudgingRun): ProjectEvaluation[] {
+    return [...run.evaluations].sort((a, b) => (a.finalRank ?? Infinity) - (b.finalRank ?? Infinity));
+}
+
+function findResult(evaluation: ProjectEvaluation, judgeId: string): JudgeResult | undefined {
+    return evaluation.judgeResults.find(result => result.judgeId === judgeId && !result.failed);
+}
+
+function trackName(run: JudgingRun, trackId: string | undefined): string | undefined {
+    return trackId ? run.event?.tracks.find(track => track.id === trackId)?.name ?? trackId : undefined;
+}
+
+/** One row per project: rank, project, track, each judge's score and the average. */
+function leaderboardRows(run: JudgingRun): Cell[][] {
+    const header = ['rank', 'project', 'track', ...run.judges.map(judge => judge.name), 'average'];
+    const rows = rankedEvaluations(run).map(evaluation => [
+        evaluation.finalRank,
+        evaluation.projectName,
+        trackName(run, evaluation.track),
+        ...run.judges.map(judge => findResult(evaluation, judge.id)?.score ?? undefined),
+        Number(getAverageScore(evaluation).toFixed(2))
+    ]);
+    return [header, ...rows];
+}
+
+export function resultsToCsv(run: JudgingRun): string {
+    return leaderboardRows(run).map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function toResultsFile(run: JudgingRun): ResultsFile {
+    return {
+        format: RESULTS_FORMAT,
+        version: RESULTS_VERSION,
+        runId: run.id,
+        exportedAt: new Date().toISOString(),
+        completedAt: run.completedAt,
+        event: run.event,
+        judges: run.judges.map(judge => ({ id: judge.id, name: judge.name, kind: judge.kind })),
+        evaluations: rankedEvaluations(run),
+        awards: run.awards
+    };
+}
+
+export function resultsToMarkdown(run: JudgingRun, report: UsageReport): string {
+    // Table cells can't hold pipes or line breaks
+    const cell = (value: Cell) => value === undefined ? '—' : String(value).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+    const [header, ...rows] = leaderboardRows(run);
+    const lines = [
+        `# ${run.event?.name || 'Hackathon'} results`,
+        '',
+        `Judging run ${run.id}${run.completedAt ? `, completed ${run.completedAt}` : ''}.`,
+        '',
+        '## Leaderboard',
+        '',
+        `| ${header.map(cell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+    ];
+
+    if (run.awards && run.awards.length > 0) {
+        lines.push('', '## Awards', '');
+        for (const award of run.awards) {
+            lines.push(`- **${award.awardName}**: ${award.winnerProjectName || 'not awarded'}. ${award.justification}`);
+        }
+    }
+
+    for (const evaluation of rankedEvaluations(run)) {
+        lines.push('', `## ${evaluation.finalRank ? `#${evaluation.finalRank} ` : ''}${evaluation.projectName}`, '');
+        lines.push(`Average score: ${getAverageScore(evaluation).toFixed(2)}/10${evaluation.track ? ` · Track: ${trackName(run, evaluation.track)}` : ''}`);
+        if (evaluation.rankReasoning) lines.push('', `> ${evaluation.rankReasoning.replace(/\n/g, '\n> ')}`);
+
+        for (const result of evaluation.judgeResults) {
+            lines.push('', `### ${result.judgeName}: ${result.failed ? `evaluation failed (${result.error || 'Unknown error'})` : `${result.score}/10`}`);
+            if (result.failed) continue;
+            lines.push('', result.summary);
+            if (result.likes.length > 0) lines.push('', '**Likes:**', '', ...result.likes.map(like => `- ${like}`));
+            if (result.dislikes.length > 0) lines.push('', '**Dislikes:**', '', ...result.dislikes.map(dislike => `- ${dislike}`));
+        }
+    }
+
+    const total = report.rows.find(row => row.scope === 'run')?.usage;
+    if (total) {
+        lines.push('', '## Usage', '', `${total.calls} calls (${total.cachedCalls} from cache), ${total.inputTokens} input and ${total.outputTokens} output tokens, estimated $${total.costUsd.toFixed(4)}.`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML 1.0
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// A1-style column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + (n - 1) % 26) + name;
+    }
+    return name;
+}
+
+function worksheetXml(rows: Cell[][]): string {
+    const cells = (row: Cell[], rowIndex: number) => row.map((value, columnIndex) => {
+        const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+        if (value === undefined) return '';
+        return typeof value === 'number' ?
+            `<c r="${ref}"><v>${value}</v></c>` :
+            `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+        rows.map((row, index) => `<row r="${index + 1}">${cells(row, index)}</row>`).join('') +
+        '</sheetData></worksheet>';
+}
+
+/** Sheet names must be unique, at most 31 characters and free of []:*?/\ */
+function sheetNames(titles: string[]): string[] {
+    const names: string[] = [];
+    for (const title of titles) {
+        const base = title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_CHARS) || 'Sheet';
+        let name = base;
+        for (let suffix = 2; names.some(existing => existing.toLowerCase() === name.toLowerCase()); suffix++) {
+            name = `${base.slice(0, MAX_SHEET_NAME_CHARS - String(suffix).length - 1)} ${suffix}`;
+        }
+        names.push(name);
+    }
+    return names;
+}
+
+/**
+ * Builds an XLSX workbook with the leaderboard, one sheet per judge and the
+ * usage report. The workbook is a ZIP of SpreadsheetML parts, written with
+ * inline strings so no shared string table is needed.
+ */
+export function resultsToXlsx(run: JudgingRun, report: UsageReport): Promise<Buffer> {
+    const judgeSheets = run.judges.map(judge => [
+        ['rank', 'project', 'score', 'normalized score', 'summary', 'likes', 'dislikes'],
+        ...rankedEvaluations(run)
+            .filter(evaluation => evaluation.judgeResults.some(result => result.judgeId === judge.id))
+            .map(evaluation => {
+                const result = evaluation.judgeResults.find(candidate => candidate.judgeId === judge.id)!;
+                return [
+                    evaluation.finalRank,
+                    evaluation.projectName,
+                    result.score ?? undefined,
+                    result.normalizedScore,
+                    result.failed ? `Evaluation failed: ${result.error || 'Unknown error'}` : result.summary,
+                    result.likes.join('\n'),
+                    result.dislikes.join('\n')
+                ];
+            })
+    ]);
+    const usageSheet: Cell[][] = [
+        ['scope', 'project', 'judge', 'calls', 'cached calls', 'input tokens', 'output tokens', `cost (${report.currency})`],
+        ...report.rows.map(row => [
+            row.scope,
+            row.projectName,
+            row.judgeName,
+            row.usage.calls,
+            row.usage.cachedCalls,
+            row.usage.inputTokens,
+            row.usage.outputTokens,
+            row.usage.costUsd
+        ])
+    ];
+
+    const sheets = [leaderboardRows(run), ...judgeSheets, usageSheet];
+    const names = sheetNames(['Leaderboard', ...run.judges.map(judge => judge.name), 'Usage']);
+
+    const zipFile = new yazl.ZipFile();
+    const add = (path: string, xml: string) => zipFile.addBuffer(Buffer.from(xml, 'utf-8'), path);
+
+    add('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>');
+    add('_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>');
+    add('xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>');
+    add('xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+        '</Relationships>');
+    sheets.forEach((rows, index) => add(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(rows)));
+    zipFile.end();
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        zipFile.outputStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        zipFile.outputStream.on('end', () => resolve(Buffer.concat(chunks)));
+        zipFile.outputStream.on('error', reject);
+    });
+}
@@ -0,0 +1,117 @@
+import { JudgeDistribution, JudgeResult, ProjectEvaluation, ScoreNormalization } from './judging-types';
+import { median } from './score-statistics';
+import { round } from './math-utils';
+
+export const SCORE_NORMALIZATIONS: ScoreNormalization[] = ['none', 'z-score', 'rank'];
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Population standard deviation: the cohort is every project, not a sample of them
+function stdDev(values: number[]): number {
+    const average = mean(values);
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - average) * (value - average), 0) / values.length);
+}
+
+/** Linearly interpolated quantile of sorted values, for p from 0 to 1. */
+function quantile(sorted: number[], p: number): number {
+    const position = p * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function isScored(result: JudgeResult): boolean {
+    return !result.failed && typeof result.score === 'number';
+}
+
+/** Groups the successful results of a run by judge, in first-seen order. */
+function groupByJudge(evaluations: ProjectEvaluation[]): Map<string, JudgeResult[]> {
+    const groups = new Map<string, JudgeResult[]>();
+    for (const evaluation of evaluations) {
+        for (const result of evaluation.judgeResults) {
+            if (!isScored(result)) continue;
+            const group = groups.get(result.judgeId) || [];
+            group.push(result);
+            groups.set(result.judgeId, group);
+        }
+    }
+    return groups;
+}
+
+/**
+ * Summarizes how each judge scored the cohort. The offset compares a judge's
+ * mean with the mean of every score in the run, so lenient judges come out
+ * positive and harsh judges negative.
+ */
+export function summarizeJudges(evaluations: ProjectEvaluation[]): JudgeDistribution[] {
+    const groups = groupByJudge(evaluations);
+    const allScores = Array.from(groups.values()).flat().map(result => result.score as number);
+    if (allScores.length === 0) return [];
+
+    const cohortMean = mean(allScores);
+    return Array.from(groups.values()).map(results => {
+        const scores = results.map(result => result.score as number);
+        return {
+            judgeId: results[0].judgeId,
+            judgeName: results[0].judgeName,
+            count: scores.length,
+            mean: round(mean(scores)),
+            median: round(median(scores)),
+            stdDev: round(stdDev(scores)),
+            min: Math.min(...scores),
+            max: Math.max(...scores),
+            offset: round(mean(scores) - cohortMean)
+        };
+    });
+}
+
+/**
+ * Calibrates every judge's scores against the cohort and stores them as
+ * normalizedScore, leaving the raw scores untouched. Both methods map back
+ * onto the distribution of all scores in the run, so normalized scores stay
+ * on the familiar 1-10 scale:
+ * - z-score: a score's distance from its judge's mean, in its judge's
+ *   standard deviations, placed at the same distance from the cohort mean
+ * - rank: a score's percentile among its judge's scores, placed at the same
+ *   percentile of all scores
+ * A judge who gave every project the same score says nothing about their
+ * relative merit, so all of their scores map to the cohort's centre.
+ */
+export function normalizeScores(evaluations: ProjectEvaluation[], method: ScoreNormalization): void {
+    for (const evaluation of evaluations) {
+        for (const result of evaluation.judgeResults) {
+            result.normalizedScore = undefined;
+        }
+    }
+    if (method === 'none') return;
+
+    const groups = groupByJudge(evaluations);
+    const allScores = Array.from(groups.values()).flat().map(result => result.score as number).sort((a, b) => a - b);
+    if (allScores.length === 0) return;
+
+    const cohortMean = mean(allScores);
+    const cohortStdDev = stdDev(allScores);
+
+    for (const results of groups.values()) {
+        const scores = results.map(result => result.score as number);
+
+        if (method === 'z-score') {
+            const judgeMean = mean(scores);
+            const judgeStdDev = stdDev(scores);
+            for (const result of results) {
+                const z = judgeStdDev > 0 ? ((result.score as number) - judgeMean) / judgeStdDev : 0;
+                result.normalizedScore = round(Math.min(10, Math.max(1, cohortMean + z * cohortStdDev)), 1);
+            }
+        } else {
+            for (const result of results) {
+                // Ties share the average of the ranks they span
+                const below = scores.filter(score => score < (result.score as number)).length;
+                const equal = scores.filter(score => score === result.score).length;
+                const percentile = scores.length > 1 ? (below + (equal - 1) / 2) / (scores.length - 1) : 0.5;
+                result.normalizedScore = round(quantile(allScores, percentile), 1);
+            }
+        }
+    }
+}
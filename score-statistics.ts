@@ -0,0 +1,133 @@
+import { JudgeResult, ProjectEvaluation, ScoreInterval, ScoreStats } from './judging-types';
+import { addUsage, emptyUsage } from './usage-accounting';
+import { round } from './math-utils';
+
+export const MAX_SAMPLES_PER_JUDGE = 10;
+
+export const DEFAULT_PRIZE_COUNT = 3;
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function summarizeScores(scores: number[], failedSamples: number): ScoreStats {
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const variance = scores.length > 1 ?
+        scores.reduce((sum, score) => sum + (score - mean) * (score - mean), 0) / (scores.length - 1) : 0;
+    const stdDev = Math.sqrt(variance);
+    const margin = Z_95 * stdDev / Math.sqrt(scores.length);
+
+    return {
+        samples: scores.length,
+        failedSamples,
+        scores,
+        median: round(median(scores)),
+        mean: round(mean),
+        stdDev: round(stdDev),
+        low: round(Math.max(1, mean - margin)),
+        high: round(Math.min(10, mean + margin))
+    };
+}
+
+/**
+ * Merges the items of several samples, most frequent first. Items count as
+ * the same when they only differ in case, spacing or punctuation.
+ */
+export function mergeByFrequency(lists: string[][]): string[] {
+    const counts = new Map<string, { text: string; count: number; firstSeen: number }>();
+
+    lists.forEach(list => {
+        for (const item of new Set(list)) {
+            const key = item.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+            if (!key) continue;
+
+            const entry = counts.get(key);
+            if (entry) {
+                entry.count++;
+            } else {
+                counts.set(key, { text: item.trim(), count: 1, firstSeen: counts.size });
+            }
+        }
+    });
+
+    return Array.from(counts.values())
+        .sort((a, b) => b.count - a.count || a.firstSeen - b.firstSeen)
+        .map(entry => entry.text);
+}
+
+/**
+ * Combines independent samples of one judge into a single result. The score
+ * is the median of the sampled scores; the summary and rubric breakdown come
+ * from the sample closest to it. Failed samples only count towards usage,
+ * unless every sample failed.
+ */
+export function aggregateSamples(samples: JudgeResult[]): JudgeResult {
+    const usage = samples.reduce((total, sample) => addUsage(total, sample.usage), emptyUsage());
+    const succeeded = samples.filter(sample => !sample.failed && typeof sample.score === 'number');
+
+    if (succeeded.length === 0) {
+        return { ...samples[0], usage, error: `All ${samples.length} samples failed: ${samples[0].error}` };
+    }
+
+    const stats = summarizeScores(succeeded.map(sample => sample.score as number), samples.length - succeeded.length);
+    const representative = succeeded.reduce((best, sample) =>
+        Math.abs((sample.score as number) - stats.median) < Math.abs((best.score as number) - stats.median) ? sample : best
+    );
+
+    return {
+        ...representative,
+        score: stats.median,
+        likes: mergeByFrequency(succeeded.map(sample => sample.likes)),
+        dislikes: mergeByFrequency(succeeded.map(sample => sample.dislikes)),
+        usage,
+        scoreStats: stats
+    };
+}
+
+/**
+ * Interval of a project's average judge score, normalized when the run
+ * calibrates judges. Each judge contributes the standard error of its raw
+ * samples; judges with a single sample contribute none.
+ */
+export function computeScoreInterval(evaluation: ProjectEvaluation): ScoreInterval | undefined {
+    const scored = evaluation.judgeResults.filter(result => !result.failed && typeof result.score === 'number');
+    if (scored.length === 0) return undefined;
+
+    let mean = scored.reduce((sum, result) => sum + (result.normalizedScore ?? result.score as number), 0) / scored.length;
+    const variance = scored.reduce((sum, result) => {
+        const stats = result.scoreStats;
+        return stats && stats.samples > 1 ? sum + stats.stdDev * stats.stdDev / stats.samples : sum;
+    }, 0) / (scored.length * scored.length);
+    const margin = Z_95 * Math.sqrt(variance);
+
+    // Centre on the score the project was ranked by
+    if (typeof evaluation.blendedScore === 'number') mean = evaluation.blendedScore;
+
+    return { mean: round(mean), low: round(Math.max(1, mean - margin)), high: round(Math.min(10, mean + margin)) };
+}
+
+/**
+ * Flags neighbouring projects across each prize boundary (1st/2nd, ...,
+ * last prize/first without one) whose score intervals overlap. Expects the
+ * evaluations in final rank order.
+ */
+export function flagCloseCalls(evaluations: ProjectEvaluation[], prizeCount: number): void {
+    for (const evaluation of evaluations) {
+        evaluation.scoreInterval = computeScoreInterval(evaluation);
+        evaluation.tooCloseToCall = undefined;
+    }
+
+    for (let index = 0; index < Math.min(prizeCount, evaluations.length - 1); index++) {
+        const above = evaluations[index].scoreInterval;
+        const below = evaluations[index + 1].scoreInterval;
+        if (above && below && above.low <= below.high && below.low <= above.high) {
+            evaluations[index].tooCloseToCall = true;
+            evaluations[index + 1].tooCloseToCall = true;
+        }
+    }
+}
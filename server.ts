@@ -1,11 +1,31 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { promises as fs } from 'fs';
 import { parse } from 'url';
-import { Anthropic } from '@anthropic-ai/sdk';
 import multer, { FileFilterCallback } from 'multer';
 import { dirname, join, extname } from 'path';
 import * as yauzl from 'yauzl';
 import * as yazl from 'yazl';
+import { ClaudeCallError, ResilientCaller } from './claude-resilience';
+import { ClaudeCallRequest, ClaudeResponse, ContextLimits, JudgingPipeline } from './judging-pipeline';
+import { JudgingRunQueue } from './judging-runs';
+import { AnthropicProvider, LLMProvider, LLMRequest, ReplayProvider } from './llm-provider';
+import { ProjectStore } from './project-store';
+import { HumanScoreStore } from './human-judging';
+import { JudgePanelStore, parseJudgePanelFile, toJudgePanelFile } from './judge-panels';
+import { EventConfigStore, validateEventConfig } from './event-config';
+import { detectTechnologies, TechnologySignatureStore, validateTechnologySignatures } from './technology-detection';
+import { RESULTS_EXPORT_FORMATS, resultsToCsv, resultsToMarkdown, resultsToXlsx, toResultsFile } from './results-export';
+import { feedbackDocuments } from './feedback-report';
+import { buildTemplateContext, checkTemplate } from './prompt-template';
+import { judgesForTrack } from './tracks';
+import { BlendWeights, CacheMode, HumanScore, Judge, JudgeCriterion, JudgePanelFile, JudgingRunEvent, JudgingRunRequest, MapReduceSettings, ModelSettings, ProjectDetails, RankingSettings, ResultsExportFormat, StoredProject } from './judging-types';
+import { MIN_CHUNK_TOKENS } from './chunk-notes';
+import { MAX_BOOTSTRAP_SAMPLES, MAX_PAIRWISE_ROUNDS } from './pairwise-ranking';
+import { MAX_SAMPLES_PER_JUDGE } from './score-statistics';
+import { SCORE_NORMALIZATIONS } from './score-normalization';
+import { DEFAULT_MAX_TOKENS, ModelAllowlist } from './model-settings';
+import { CACHE_MODES, ResponseCache } from './response-cache';
+import { emptyUsage, PriceTable, usageReportToCsv } from './usage-accounting';
 
 // Extended request type for multer
 interface MulterRequest extends IncomingMessage {
@@ -17,9 +37,10 @@ interface MulterRequest extends IncomingMessage {
     };
 }
 
-interface ClaudeRequest {
+interface ClaudeRequest extends ModelSettings {
     prompt: string;
     seed: number;
+    cache?: CacheMode;
 }
 
 interface ProjectFile {
@@ -49,6 +70,8 @@ interface UploadResponse {
     totalSize?: number;
     warnings?: string[];
     droppedSummary?: string[];
+    projectId?: string;
+    track?: string;
     error?: string;
 }
 
@@ -73,9 +96,23 @@ interface MulterError extends Error {
 }
 
 class HackathonServer {
-    private anthropic: Anthropic;
+    private llmProvider: LLMProvider;
+    private claudeCaller: ResilientCaller;
+    private modelAllowlist: ModelAllowlist;
+    private fallbackModels: string[];
+    private responseCache: ResponseCache;
+    private priceTable: PriceTable;
+    private readonly CLAUDE_MODEL = process.env.CLAUDE_MODEL || 'claude-3-5-sonnet-20241022';
+    private readonly NOTES_MODEL = process.env.CLAUDE_NOTES_MODEL || 'claude-3-5-haiku-20241022'; // Cheap model for map-reduce chunk notes
     private readonly port = 3001;
     private upload: multer.Multer;
+    private projectStore: ProjectStore;
+    private humanScores: HumanScoreStore;
+    private judgePanels: JudgePanelStore;
+    private eventConfig: EventConfigStore;
+    private technologySignatures: TechnologySignatureStore;
+    private judgingRuns: JudgingRunQueue;
+    private readonly DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data');
     
     // File filtering constants
     private readonly IGNORED_DIRECTORIES = [
@@ -114,16 +151,27 @@ class HackathonServer {
     private readonly CLAUDE_TEXT_LIMIT = 8 * 1024 * 1024; // 8MB for Claude API (conservative limit)
 
     constructor() {
-        const apiKey = process.env.ANTHROPIC_API_KEY;
-        if (!apiKey) {
-            console.error('❌ ANTHROPIC_API_KEY environment variable is required');
-            process.exit(1);
-        }
+        this.llmProvider = this.createLLMProvider();
         
-        this.anthropic = new Anthropic({
-            apiKey: apiKey
+        const fallbackModels = this.fallbackModels = (process.env.CLAUDE_FALLBACK_MODELS || '')
+            .split(',')
+            .map(model => model.trim())
+            .filter(model => model.length > 0);
+        
+        this.claudeCaller = new ResilientCaller({
+            maxRetries: this.readIntegerEnv('CLAUDE_MAX_RETRIES', 4),
+            maxConcurrency: this.readIntegerEnv('CLAUDE_MAX_CONCURRENCY', 4),
+            circuitFailureThreshold: this.readIntegerEnv('CLAUDE_CIRCUIT_THRESHOLD', 5),
+            circuitResetMs: this.readIntegerEnv('CLAUDE_CIRCUIT_RESET_MS', 60000),
+            fallbackModels
         });
         
+        // Judges may only pick models from this list
+        this.modelAllowlist = ModelAllowlist.fromEnv(process.env.CLAUDE_ALLOWED_MODELS);
+        for (const model of [this.CLAUDE_MODEL, this.NOTES_MODEL, ...fallbackModels]) {
+            this.modelAllowlist.ensure(model);
+        }
+        
         // Configure multer for file uploads - supports both folders and ZIP files
         this.upload = multer({
             storage: multer.memoryStorage(),
@@ -144,6 +192,28 @@ class HackathonServer {
             }
         });
         
+        // Identical prompts are answered from disk instead of being billed again
+        this.responseCache = new ResponseCache(join(this.DATA_DIR, 'response-cache'), {
+            ttlMs: this.readIntegerEnv('CLAUDE_CACHE_TTL_MS', 7 * 24 * 60 * 60 * 1000),
+            maxBytes: this.readIntegerEnv('CLAUDE_CACHE_MAX_BYTES', 200 * 1024 * 1024)
+        });
+        
+        // Token prices for cost estimates, overridable per model
+        this.priceTable = PriceTable.fromEnv(process.env.CLAUDE_PRICES);
+        
+        // Uploaded projects and judging runs are persisted so runs survive restarts
+        this.projectStore = new ProjectStore(join(this.DATA_DIR, 'projects'));
+        this.humanScores = new HumanScoreStore(join(this.DATA_DIR, 'human-scores'));
+        this.judgePanels = new JudgePanelStore(join(this.DATA_DIR, 'judge-panels'));
+        this.eventConfig = new EventConfigStore(join(this.DATA_DIR, 'event.json'));
+        this.technologySignatures = new TechnologySignatureStore(join(this.DATA_DIR, 'technology-signatures.json'));
+        this.judgingRuns = new JudgingRunQueue(
+            join(this.DATA_DIR, 'judging-runs'),
+            this.projectStore,
+            this.humanScores,
+            new JudgingPipeline(request => this.callClaude(request), this.priceTable, settings => this.getContextLimits(settings))
+        );
+        
         console.log('🚀 Hackathon server initialized');
     }
 
@@ -312,7 +382,7 @@ class HackathonServer {
 
     private async handleCORS(res: ServerResponse): Promise<void> {
         res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
         res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
     }
 
@@ -329,6 +399,28 @@ class HackathonServer {
         });
     }
 
+    /**
+     * Reads a JSON object body. Answers 400 and returns undefined when the
+     * body is not valid JSON or not an object, so handlers can just return.
+     */
+    private async readJsonBody<T>(req: IncomingMessage, res: ServerResponse): Promise<T | undefined> {
+        let data: unknown;
+        try {
+            data = JSON.parse(await this.readBody(req));
+        } catch (error) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Request body must be valid JSON' }));
+            return undefined;
+        }
+
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Request body must be a JSON object' }));
+            return undefined;
+        }
+        return data as T;
+    }
+
     private async processUploadedFiles(files: Express.Multer.File[], projectName: string, clientFilterStats?: string): Promise<UploadResponse> {
         const startTime = Date.now();
         console.log(`📁 Processing ${files.length} files for project: ${projectName}`);
@@ -653,33 +745,114 @@ class HackathonServer {
         return typeMap[ext] || 'application/octet-stream';
     }
 
-    private async callClaude(prompt: string, seed: number): Promise<any> {
+    /**
+     * Picks the model provider from LLM_PROVIDER: "anthropic", "replay"
+     * (recorded fixtures or deterministic offline responses) or "record"
+     * (Anthropic, saving every response as a fixture). Without an API key
+     * the server runs in replay mode instead of refusing to start.
+     */
+    private createLLMProvider(): LLMProvider {
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+        const fixturesDir = process.env.LLM_FIXTURES_DIR || join(this.DATA_DIR, 'llm-fixtures');
+        const mode = process.env.LLM_PROVIDER || (apiKey ? 'anthropic' : 'replay');
+
+        if (mode === 'replay') {
+            if (!apiKey) {
+                console.log('⚠️  ANTHROPIC_API_KEY is not set, using the offline replay provider');
+            }
+            console.log(`📼 Replaying LLM responses from ${fixturesDir}`);
+            return new ReplayProvider(fixturesDir);
+        }
+
+        if (mode !== 'anthropic' && mode !== 'record') {
+            throw new Error(`Unknown LLM_PROVIDER "${mode}" (expected anthropic, replay or record)`);
+        }
+
+        if (!apiKey) {
+            throw new Error(`ANTHROPIC_API_KEY environment variable is required for LLM_PROVIDER=${mode}`);
+        }
+
+        const anthropic = new AnthropicProvider(apiKey, process.env.ANTHROPIC_BASE_URL);
+        if (mode === 'record') {
+            console.log(`📼 Recording LLM responses to ${fixturesDir}`);
+            return new ReplayProvider(fixturesDir, anthropic);
+        }
+
+        return anthropic;
+    }
+
+    /**
+     * Context window and output budget for a call with these settings. Uses
+     * the smallest window among the model and its fallbacks, since any of
+     * them may end up answering.
+     */
+    private getContextLimits(settings: ModelSettings): ContextLimits {
+        const model = settings.model || this.CLAUDE_MODEL;
+        const candidates = [model, ...this.fallbackModels];
+
+        return {
+            model,
+            contextWindow: Math.min(...candidates.map(candidate => this.modelAllowlist.getContextWindow(candidate))),
+            maxOutputTokens: Math.min(settings.maxTokens || DEFAULT_MAX_TOKENS, this.modelAllowlist.getMaxTokens(model))
+        };
+    }
+
+    private readIntegerEnv(name: string, defaultValue: number): number {
+        const value = parseInt(process.env[name] || '', 10);
+        return isNaN(value) || value < 0 ? defaultValue : value;
+    }
+
+    private async callClaude(request: ClaudeCallRequest): Promise<ClaudeResponse> {
         const startTime = Date.now();
-        console.log(`🤖 Calling Claude API (seed: ${seed})`);
+        const settings = request.settings || {};
+        const systemPrompt = settings.systemPrompt || 'You are evaluating hackathon projects. Use consistent evaluation criteria.';
+        const cacheMode = request.cache || 'use';
+        console.log(`🤖 Calling Claude API (seed: ${request.seed}${request.tool ? `, tool: ${request.tool.name}` : ''}${settings.model ? `, model: ${settings.model}` : ''}, cache: ${cacheMode})`);
+        
+        const llmRequest: LLMRequest = {
+            model: settings.model || this.CLAUDE_MODEL,
+            maxTokens: settings.maxTokens || DEFAULT_MAX_TOKENS,
+            temperature: settings.temperature,
+            messages: request.messages,
+            system: `${systemPrompt} Random seed: ${request.seed}`,
+            tool: request.tool,
+            sample: request.sample
+        };
+        const cacheKey = ResponseCache.createKey(this.llmProvider.name, llmRequest);
         
         try {
-            const response = await this.anthropic.messages.create({
-                model: 'claude-3-5-sonnet-20241022',
-                max_tokens: 2000,
-                messages: [
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                system: `You are evaluating hackathon projects. Use consistent evaluation criteria. Random seed: ${seed}`
-            });
+            if (cacheMode === 'use') {
+                const cached = await this.responseCache.get(cacheKey);
+                if (cached) {
+                    console.log(`🗄️  Cache hit for ${cacheKey.substring(0, 12)} (${cached.model})`);
+                    return { ...cached.response, model: cached.model, attempts: [], cacheHit: true };
+                }
+            }
+
+            const { result: response, model, attempts } = await this.claudeCaller.execute(llmRequest.model, model =>
+                this.llmProvider.complete({
+                    ...llmRequest,
+                    model,
+                    // A fallback model may allow fewer output tokens than the requested one
+                    maxTokens: Math.min(llmRequest.maxTokens, this.modelAllowlist.getMaxTokens(model))
+                })
+            );
 
             const processingTime = Date.now() - startTime;
-            console.log(`✅ Claude API responded in ${processingTime}ms`);
+            console.log(`✅ Claude API (${model}) responded in ${processingTime}ms after ${attempts.length} attempt(s)`);
 
-            return {
-                content: response.content[0].type === 'text' ? response.content[0].text : '',
-                usage: response.usage
-            };
+            if (cacheMode !== 'bypass') {
+                try {
+                    await this.responseCache.set(cacheKey, model, response);
+                } catch (cacheError) {
+                    console.error(`❌ Error caching response ${cacheKey}:`, cacheError);
+                }
+            }
+
+            return { ...response, model, attempts, cacheHit: false };
         } catch (error) {
             const processingTime = Date.now() - startTime;
-            console.error(`❌ Claude API error after ${processingTime}ms:`, error);
+            console.error(`❌ Claude API error after ${processingTime}ms:`, error instanceof Error ? error.message : error);
             throw error;
         }
     }
@@ -819,6 +992,8 @@ class HackathonServer {
                 result.warnings.push(`${multerSkippedFiles} extremely large files were skipped during upload`);
             }
             
+            await this.storeUploadedProject(result, await this.getProjectDetails(req.body, result));
+            
             const totalTime = Date.now() - startTime;
             console.log(`🎉 Upload completed in ${totalTime}ms`);
             
@@ -847,6 +1022,7 @@ class HackathonServer {
                     const result = await this.processUploadedFiles(files, projectName, clientFilterStats);
                     result.warnings = result.warnings || [];
                     result.warnings.push('Upload encountered errors but partial processing completed');
+                    await this.storeUploadedProject(result, await this.getProjectDetails((req as any).body, result));
                     
                     console.log(`✅ Partial recovery successful: ${result.files.length} files processed`);
                     
@@ -878,6 +1054,43 @@ class HackathonServer {
         }
     }
 
+    // Optional details entered with the upload; a track the event doesn't have is dropped with a warning
+    private async getProjectDetails(body: Record<string, string> | undefined, result: UploadResponse): Promise<ProjectDetails> {
+        const details: ProjectDetails = {};
+        const description = typeof body?.projectDescription === 'string' ? body.projectDescription.trim() : '';
+        if (description) details.description = description;
+
+        const track = typeof body?.projectTrack === 'string' ? body.projectTrack.trim() : '';
+        if (track) {
+            const event = await this.eventConfig.get();
+            if (event.tracks.some(candidate => candidate.id === track)) {
+                details.track = track;
+            } else {
+                if (!result.warnings) result.warnings = [];
+                result.warnings.push(`Unknown track "${track}", the project was uploaded without a track`);
+            }
+        }
+
+        return details;
+    }
+
+    private async storeUploadedProject(result: UploadResponse, details: ProjectDetails = {}): Promise<void> {
+        if (!result.success || result.files.length === 0) {
+            return;
+        }
+        
+        try {
+            const project = await this.projectStore.save(result.projectName, result.files, result.droppedSummary, details);
+            result.projectId = project.id;
+            result.track = project.track;
+        } catch (error) {
+            // Upload still succeeds; the project just can't be judged server-side
+            console.error(`❌ Error storing project ${result.projectName}:`, error);
+            if (!result.warnings) result.warnings = [];
+            result.warnings.push('Project could not be saved on the server and cannot be judged');
+        }
+    }
+
     private async handleClaudeRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
         const startTime = Date.now();
         console.log(`🤖 Claude API request received`);
@@ -898,8 +1111,8 @@ class HackathonServer {
 
             await this.handleCORS(res);
             
-            const body = await this.readBody(req);
-            const requestData: ClaudeRequest = JSON.parse(body);
+            const requestData = await this.readJsonBody<ClaudeRequest>(req, res);
+            if (!requestData) return;
 
             if (!requestData.prompt) {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -907,48 +1120,851 @@ class HackathonServer {
                 return;
             }
 
-            const response = await this.callClaude(requestData.prompt, requestData.seed || 12345);
+            const { settings, errors } = this.modelAllowlist.validate(requestData, 'request');
+            if (requestData.cache !== undefined && !CACHE_MODES.includes(requestData.cache)) {
+                errors.push(`cache must be one of ${CACHE_MODES.join(', ')}`);
+            }
+            if (errors.length > 0) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: errors.join('; ') }));
+                return;
+            }
+
+            const response = await this.callClaude({
+                messages: [{ role: 'user', content: requestData.prompt }],
+                seed: requestData.seed || 12345,
+                settings,
+                cache: requestData.cache
+            });
             
             const totalTime = Date.now() - startTime;
             console.log(`✅ Claude request completed in ${totalTime}ms`);
             
+            const usage = emptyUsage();
+            this.priceTable.record(usage, response);
+            
             res.writeHead(200, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ 
                 success: true, 
                 response: response.content,
-                usage: response.usage 
+                usage: response.usage,
+                costUsd: usage.costUsd,
+                model: response.model,
+                attempts: response.attempts,
+                cacheHit: response.cacheHit
             }));
 
         } catch (error) {
             const totalTime = Date.now() - startTime;
             console.error(`❌ Claude request failed after ${totalTime}ms:`, error);
             
-            // Always return a successful response with a fallback evaluation
-            const fallbackResponse = {
-                summary: "API call failed - providing fallback evaluation. Unable to perform detailed AI analysis at this time.",
-                score: 5, // Neutral score
-                likes: [
-                    "Project structure appears organized",
-                    "Files are properly named and categorized",
-                    "Code appears to follow standard conventions"
-                ],
-                dislikes: [
-                    "Unable to perform detailed code analysis due to API error",
-                    "Could not evaluate technical implementation specifics",
-                    "Limited assessment available due to system constraints"
-                ]
-            };
+            // Report the failure instead of inventing an evaluation
+            const attempts = error instanceof ClaudeCallError ? error.attempts : [];
             
-            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.writeHead(502, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ 
-                success: true, 
-                response: JSON.stringify(fallbackResponse),
-                usage: { input_tokens: 0, output_tokens: 0 },
-                warning: 'API call failed - using fallback evaluation'
+                success: false, 
+                error: error instanceof Error ? error.message : 'Unknown error',
+                attempts
             }));
         }
     }
 
+    private async handleModels(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method !== 'GET') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            success: true,
+            defaultModel: this.CLAUDE_MODEL,
+            notesModel: this.NOTES_MODEL,
+            defaultMaxTokens: DEFAULT_MAX_TOKENS,
+            models: this.modelAllowlist.list()
+        }));
+    }
+
+    private async handleJudgingRuns(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        const [runId, action] = pathname.replace(/^\/api\/judging-runs\/?/, '').split('/');
+
+        if (runId && action === 'events' && req.method === 'GET') {
+            await this.handleJudgingRunEvents(req, res, runId);
+            return;
+        }
+
+        if (runId && action === 'usage' && req.method === 'GET') {
+            await this.handleJudgingRunUsage(req, res, runId);
+            return;
+        }
+
+        if (runId && action === 'export' && req.method === 'GET') {
+            await this.handleJudgingRunExport(req, res, runId);
+            return;
+        }
+
+        if (!runId && req.method === 'POST') {
+            await this.handleCreateJudgingRun(req, res);
+            return;
+        }
+
+        if (runId && !action && req.method === 'GET') {
+            const run = await this.judgingRuns.getRun(runId);
+            if (!run) {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'Judging run not found' }));
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, run }));
+            return;
+        }
+
+        res.writeHead(405, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+    }
+
+    private async handleJudgingRunUsage(req: IncomingMessage, res: ServerResponse, runId: string): Promise<void> {
+        const run = await this.judgingRuns.getRun(runId);
+        if (!run) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Judging run not found' }));
+            return;
+        }
+
+        const report = this.priceTable.buildReport(run);
+
+        if (parse(req.url || '', true).query.format === 'csv') {
+            res.writeHead(200, {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="judging-usage-${run.id}.csv"`
+            });
+            res.end(usageReportToCsv(report));
+            return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, report }));
+    }
+
+    /**
+     * Downloads a run's results as ?format=csv (leaderboard), json (versioned
+     * results file), xlsx (leaderboard, one sheet per judge and usage) or
+     * markdown (report).
+     */
+    private async handleJudgingRunExport(req: IncomingMessage, res: ServerResponse, runId: string): Promise<void> {
+        const run = await this.judgingRuns.getRun(runId);
+        if (!run) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Judging run not found' }));
+            return;
+        }
+
+        // Results of a queued or running run are still changing
+        if (run.status !== 'completed' && run.status !== 'failed') {
+            res.writeHead(409, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: `Judging run is still ${run.status}` }));
+            return;
+        }
+
+        const format = String(parse(req.url || '', true).query.format || 'csv');
+        if (!RESULTS_EXPORT_FORMATS.includes(format as ResultsExportFormat)) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: `format must be one of ${RESULTS_EXPORT_FORMATS.join(', ')}` }));
+            return;
+        }
+
+        const filename = `judging-results-${run.id}`;
+        console.log(`📤 Exporting results of run ${run.id} as ${format}`);
+
+        if (format === 'json') {
+            res.writeHead(200, {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="${filename}.json"`
+            });
+            res.end(JSON.stringify(toResultsFile(run), null, 2));
+        } else if (format === 'xlsx') {
+            const workbook = await resultsToXlsx(run, this.priceTable.buildReport(run));
+            res.writeHead(200, {
+                'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                'Content-Disposition': `attachment; filename="${filename}.xlsx"`
+            });
+            res.end(workbook);
+        } else if (format === 'markdown') {
+            res.writeHead(200, {
+                'Content-Type': 'text/markdown; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${filename}.md"`
+            });
+            res.end(resultsToMarkdown(run, this.priceTable.buildReport(run)));
+        } else {
+            res.writeHead(200, {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${filename}.csv"`
+            });
+            res.end(resultsToCsv(run));
+        }
+    }
+
+    /**
+     * GET /api/judge-panels lists the saved panels and GET /api/judge-panels/:id
+     * returns one, as a versioned panel file download with ?format=file.
+     * POST saves a panel file, replacing the panel with the body's id if given.
+     */
+    private async handleJudgePanels(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        const [panelId] = pathname.replace(/^\/api\/judge-panels\/?/, '').split('/');
+
+        if (!panelId && req.method === 'GET') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, panels: await this.judgePanels.list() }));
+            return;
+        }
+
+        if (panelId && req.method === 'GET') {
+            const panel = await this.judgePanels.get(panelId);
+            if (!panel) {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'Judge panel not found' }));
+                return;
+            }
+
+            if (parse(req.url || '', true).query.format === 'file') {
+                const filename = panel.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'judge-panel';
+                res.writeHead(200, {
+                    'Content-Type': 'application/json',
+                    'Content-Disposition': `attachment; filename="${filename}.judges.json"`
+                });
+                res.end(JSON.stringify(toJudgePanelFile(panel), null, 2));
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, panel }));
+            return;
+        }
+
+        if (!panelId && req.method === 'POST') {
+            const requestData = await this.readJsonBody<JudgePanelFile & { id?: string }>(req, res);
+            if (!requestData) return;
+
+            const file = parseJudgePanelFile(requestData);
+            const { judges, errors } = file.errors.length > 0 ? { judges: [], errors: [] } : this.validateJudges(file.judges);
+            if (file.errors.length > 0 || errors.length > 0 || judges.length === 0) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: [...file.errors, ...errors].join('; ') }));
+                return;
+            }
+
+            const panel = await this.judgePanels.save(file.name, judges, typeof requestData.id === 'string' ? requestData.id : undefined);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, panel }));
+            return;
+        }
+
+        res.writeHead(405, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+    }
+
+    /** GET returns the event configuration; PUT replaces it. */
+    private async handleEvent(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        if (req.method === 'GET') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, event: await this.eventConfig.get() }));
+            return;
+        }
+
+        if (req.method !== 'PUT') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        const requestData = await this.readJsonBody<Record<string, unknown>>(req, res);
+        if (!requestData) return;
+
+        const { config, errors } = validateEventConfig(requestData);
+        if (errors.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: errors.join('; ') }));
+            return;
+        }
+
+        await this.eventConfig.save(config);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, event: config }));
+    }
+
+    /**
+     * GET returns the technology signatures that sponsor awards are checked
+     * against. PUT replaces the whole list.
+     */
+    private async handleTechnologySignatures(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        if (req.method === 'GET') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, signatures: await this.technologySignatures.get() }));
+            return;
+        }
+
+        if (req.method !== 'PUT') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        const requestData = await this.readJsonBody<{ signatures?: unknown }>(req, res);
+        if (!requestData) return;
+
+        const { signatures, errors } = validateTechnologySignatures(requestData.signatures);
+        if (errors.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: errors.join('; ') }));
+            return;
+        }
+
+        await this.technologySignatures.save(signatures);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, signatures }));
+    }
+
+    /**
+     * GET detects the technologies used by the projects in ?projectIds=a,b,
+     * so organizers can check sponsor eligibility before a run.
+     */
+    private async handleTechnologyUsage(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        if (req.method !== 'GET') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        const projectIds = String(parse(req.url || '', true).query.projectIds || '').split(',').filter(id => id);
+        const signatures = await this.technologySignatures.get();
+        const projects = [];
+        for (const projectId of projectIds) {
+            const project = await this.projectStore.get(projectId);
+            if (!project) {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: `Unknown project ID: ${projectId}` }));
+                return;
+            }
+            projects.push({ projectId, projectName: project.name, technologies: detectTechnologies(project.files, signatures) });
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, projects }));
+    }
+
+    /**
+     * GET lists the stored human scores of the projects in ?projectIds=a,b.
+     * POST stores { scores: [...] } from the scoring form or an import; a
+     * judge's new score for a project replaces their earlier one. Nothing is
+     * stored unless every score is valid.
+     */
+    private async handleHumanScores(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        if (req.method === 'GET') {
+            const projectIds = String(parse(req.url || '', true).query.projectIds || '').split(',').filter(id => id);
+            const scores = (await Promise.all(projectIds.map(id => this.humanScores.listForProject(id)))).flat();
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, scores }));
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        const requestData = await this.readJsonBody<{ scores?: Array<Partial<HumanScore>> }>(req, res);
+        if (!requestData) return;
+
+        if (!Array.isArray(requestData.scores) || requestData.scores.length === 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'scores must be a non-empty array' }));
+            return;
+        }
+
+        const errors: string[] = [];
+        const scores: HumanScore[] = [];
+        const isStringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+        const submittedAt = new Date().toISOString();
+
+        for (const [index, raw] of requestData.scores.entries()) {
+            const label = `score ${index + 1}`;
+            if (!raw || typeof raw.projectId !== 'string' || !await this.projectStore.get(raw.projectId)) {
+                errors.push(`${label}: unknown project ${JSON.stringify(raw?.projectId)}`);
+                continue;
+            }
+            if (typeof raw.judgeId !== 'string' || !raw.judgeId.trim() || typeof raw.judgeName !== 'string' || !raw.judgeName.trim()) {
+                errors.push(`${label}: judgeId and judgeName are required`);
+                continue;
+            }
+            if (typeof raw.score !== 'number' || isNaN(raw.score) || raw.score < 1 || raw.score > 10) {
+                errors.push(`${label}: score must be a number from 1 to 10`);
+                continue;
+            }
+            if ((raw.summary !== undefined && typeof raw.summary !== 'string') || !isStringList(raw.likes) || !isStringList(raw.dislikes)) {
+                errors.push(`${label}: summary must be text and likes and dislikes lists of text`);
+                continue;
+            }
+
+            scores.push({
+                projectId: raw.projectId,
+                judgeId: raw.judgeId.trim(),
+                judgeName: raw.judgeName.trim(),
+                score: raw.score,
+                summary: raw.summary || '',
+                likes: raw.likes || [],
+                dislikes: raw.dislikes || [],
+                submittedAt
+            });
+        }
+
+        if (errors.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: errors.join('; ') }));
+            return;
+        }
+
+        // One at a time, so scores for the same project don't overwrite each other's file
+        for (const score of scores) {
+            await this.humanScores.save(score);
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, saved: scores.length }));
+    }
+
+    /**
+     * Checks a list of judges from a run request or a judge panel and returns
+     * them with only the known fields, valid rubric criteria and allowlisted
+     * model settings. Returns no judges when the list itself is malformed.
+     */
+    private validateJudges(raw: unknown): { judges: Judge[]; errors: string[] } {
+        // Human judges need no prompt, since their scores are entered rather than generated
+        const isValidJudge = (judge: Judge) => judge && typeof judge.id === 'string' && typeof judge.name === 'string' &&
+            (judge.kind === 'human' || (typeof judge.prompt === 'string' && judge.prompt.trim().length > 0));
+        if (!Array.isArray(raw) || raw.length === 0 || !raw.every(isValidJudge)) {
+            return { judges: [], errors: ['judges must be a non-empty array of judges with id, name and prompt'] };
+        }
+
+        const errors: string[] = [];
+        if (raw.some(judge => judge.kind !== undefined && judge.kind !== 'ai' && judge.kind !== 'human')) {
+            errors.push('judge kind must be "ai" or "human"');
+        }
+        if (raw.some(judge => judge.tracks !== undefined && (!Array.isArray(judge.tracks) || !judge.tracks.every((track: unknown) => typeof track === 'string')))) {
+            errors.push('judge tracks must be a list of track IDs');
+        }
+
+        const judges = (raw as Judge[]).map(judge => {
+            const isHuman = judge.kind === 'human';
+            const validated = isHuman ? { settings: {}, errors: [] } : this.modelAllowlist.validate(judge, `judge "${judge.name}"`);
+            errors.push(...validated.errors);
+
+            return {
+                id: judge.id,
+                name: judge.name,
+                description: judge.description || '',
+                prompt: judge.prompt || '',
+                criteria: isHuman ? undefined : this.normalizeCriteria(judge.criteria),
+                kind: isHuman ? 'human' as const : undefined,
+                enabled: judge.enabled === false ? false : undefined,
+                tracks: Array.isArray(judge.tracks) && judge.tracks.length > 0 ? judge.tracks : undefined,
+                ...validated.settings
+            };
+        });
+
+        return { judges, errors };
+    }
+
+    private normalizeCriteria(criteria: unknown): JudgeCriterion[] | undefined {
+        if (!Array.isArray(criteria)) {
+            return undefined;
+        }
+
+        const normalized: JudgeCriterion[] = [];
+        for (const raw of criteria) {
+            if (!raw || typeof raw.name !== 'string' || !raw.name.trim() ||
+                typeof raw.maxPoints !== 'number' || !(raw.maxPoints > 0)) {
+                console.log(`⚠️  Ignoring invalid rubric criterion: ${JSON.stringify(raw)}`);
+                continue;
+            }
+
+            const id = typeof raw.id === 'string' && raw.id.trim() ?
+                raw.id.trim() :
+                raw.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+            normalized.push({
+                id,
+                name: raw.name.trim(),
+                description: typeof raw.description === 'string' ? raw.description : undefined,
+                maxPoints: raw.maxPoints,
+                weight: typeof raw.weight === 'number' && raw.weight >= 0 ? raw.weight : undefined
+            });
+        }
+
+        return normalized.length > 0 ? normalized : undefined;
+    }
+
+    private async handleJudgingRunEvents(req: IncomingMessage, res: ServerResponse, runId: string): Promise<void> {
+        const run = await this.judgingRuns.getRun(runId);
+        if (!run) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Judging run not found' }));
+            return;
+        }
+
+        console.log(`📡 Progress stream opened for judging run ${runId}`);
+
+        // Progress streams stay open for the whole run, so lift the upload timeout
+        req.socket.setTimeout(0);
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+
+        let lastSentId = Number(req.headers['last-event-id']) || 0;
+        let closed = false;
+        let heartbeat: NodeJS.Timeout | undefined;
+        let unsubscribe: () => void = () => {};
+
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            unsubscribe();
+            if (heartbeat) clearInterval(heartbeat);
+            res.end();
+        };
+
+        const send = (event: JudgingRunEvent) => {
+            if (closed || event.id <= lastSentId) return;
+            lastSentId = event.id;
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            if (event.type === 'run-finished') {
+                close();
+            }
+        };
+
+        // Subscribe before replaying so nothing emitted in between is lost, but hold
+        // live events back until the replay is done so they can't skip older ones
+        let pending: JudgingRunEvent[] | null = [];
+        unsubscribe = this.judgingRuns.subscribe(runId, event => pending ? pending.push(event) : send(event));
+        heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+        req.on('close', () => {
+            console.log(`📡 Progress stream closed for judging run ${runId}`);
+            close();
+        });
+
+        // Replay what already happened before this stream was opened
+        const latest = await this.judgingRuns.getRun(runId) || run;
+        for (const event of latest.events || []) {
+            send(event);
+        }
+
+        const live = pending;
+        pending = null;
+        for (const event of live) {
+            send(event);
+        }
+
+        if (latest.status === 'completed' || latest.status === 'failed') {
+            close();
+        }
+    }
+
+    private async handleCreateJudgingRun(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        console.log(`🏁 Judging run request received`);
+
+        const requestData = await this.readJsonBody<JudgingRunRequest>(req, res);
+        if (!requestData) return;
+
+        const projectIds = requestData.projectIds;
+        if (!Array.isArray(projectIds) || projectIds.length === 0 || !projectIds.every(id => typeof id === 'string')) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'projectIds must be a non-empty array of project IDs' }));
+            return;
+        }
+
+        // Disabled judges sit out the run
+        const validatedJudges = this.validateJudges(requestData.judges);
+        const judges = validatedJudges.judges.filter(judge => judge.enabled !== false);
+        const judgeErrors = validatedJudges.errors;
+        if (judges.length === 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: judgeErrors.length > 0 ? judgeErrors.join('; ') : 'at least one judge must be enabled' }));
+            return;
+        }
+
+        const settingsErrors: string[] = [...judgeErrors];
+        const masterJudge = this.modelAllowlist.validate(requestData.masterJudge, 'masterJudge');
+        settingsErrors.push(...masterJudge.errors);
+        if (requestData.cache !== undefined && !CACHE_MODES.includes(requestData.cache)) {
+            settingsErrors.push(`cache must be one of ${CACHE_MODES.join(', ')}`);
+        }
+
+        // Map-reduce mode is on when settings are given; chunk notes default to the cheap notes model
+        let mapReduce: MapReduceSettings | undefined;
+        if (requestData.mapReduce !== undefined && requestData.mapReduce !== null) {
+            const notes = this.modelAllowlist.validate(requestData.mapReduce, 'mapReduce');
+            settingsErrors.push(...notes.errors);
+            mapReduce = { model: this.NOTES_MODEL, ...notes.settings };
+
+            const chunkTokens = (requestData.mapReduce as MapReduceSettings).chunkTokens;
+            if (chunkTokens !== undefined && chunkTokens !== null) {
+                if (typeof chunkTokens !== 'number' || !Number.isInteger(chunkTokens) || chunkTokens < MIN_CHUNK_TOKENS) {
+                    settingsErrors.push(`mapReduce: chunkTokens must be an integer of at least ${MIN_CHUNK_TOKENS}`);
+                } else {
+                    mapReduce.chunkTokens = chunkTokens;
+                }
+            }
+        }
+
+        let ranking: RankingSettings | undefined;
+        if (requestData.ranking !== undefined && requestData.ranking !== null) {
+            const { strategy, rounds, bootstrapSamples } = requestData.ranking;
+            if (strategy !== 'master-judge' && strategy !== 'pairwise') {
+                settingsErrors.push('ranking: strategy must be "master-judge" or "pairwise"');
+            } else if (rounds !== undefined && rounds !== null &&
+                (typeof rounds !== 'number' || !Number.isInteger(rounds) || rounds < 1 || rounds > MAX_PAIRWISE_ROUNDS)) {
+                settingsErrors.push(`ranking: rounds must be an integer between 1 and ${MAX_PAIRWISE_ROUNDS}`);
+            } else if (bootstrapSamples !== undefined && bootstrapSamples !== null &&
+                (typeof bootstrapSamples !== 'number' || !Number.isInteger(bootstrapSamples) || bootstrapSamples < 0 || bootstrapSamples > MAX_BOOTSTRAP_SAMPLES)) {
+                settingsErrors.push(`ranking: bootstrapSamples must be an integer between 0 and ${MAX_BOOTSTRAP_SAMPLES}`);
+            } else {
+                ranking = {
+                    strategy,
+                    rounds: typeof rounds === 'number' ? rounds : undefined,
+                    bootstrapSamples: typeof bootstrapSamples === 'number' ? bootstrapSamples : undefined
+                };
+            }
+        }
+
+        const { samplesPerJudge, prizeCount } = requestData;
+        if (samplesPerJudge !== undefined && samplesPerJudge !== null &&
+            (typeof samplesPerJudge !== 'number' || !Number.isInteger(samplesPerJudge) || samplesPerJudge < 1 || samplesPerJudge > MAX_SAMPLES_PER_JUDGE)) {
+            settingsErrors.push(`samplesPerJudge must be an integer between 1 and ${MAX_SAMPLES_PER_JUDGE}`);
+        }
+        if (prizeCount !== undefined && prizeCount !== null &&
+            (typeof prizeCount !== 'number' || !Number.isInteger(prizeCount) || prizeCount < 1)) {
+            settingsErrors.push('prizeCount must be a positive integer');
+        }
+
+        if (requestData.normalization !== undefined && requestData.normalization !== null && !SCORE_NORMALIZATIONS.includes(requestData.normalization)) {
+            settingsErrors.push(`normalization must be one of ${SCORE_NORMALIZATIONS.join(', ')}`);
+        }
+
+        let blend: BlendWeights | undefined;
+        if (requestData.blend !== undefined && requestData.blend !== null) {
+            const { ai, human } = requestData.blend;
+            const isWeight = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+            if (!isWeight(ai) || !isWeight(human) || ai + human <= 0) {
+                settingsErrors.push('blend: ai and human must be non-negative weights that are not both 0');
+            } else {
+                blend = { ai, human };
+            }
+        }
+
+        if (settingsErrors.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: settingsErrors.join('; ') }));
+            return;
+        }
+
+        const missingProjects: string[] = [];
+        const projects: StoredProject[] = [];
+        for (const projectId of projectIds) {
+            const project = await this.projectStore.get(projectId);
+            if (project) {
+                projects.push(project);
+            } else {
+                missingProjects.push(projectId);
+            }
+        }
+
+        if (missingProjects.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: `Unknown project IDs: ${missingProjects.join(', ')}` }));
+            return;
+        }
+
+        // Judges' tracks and template variables are checked against the event before anything is sent to a model
+        const event = await this.eventConfig.get();
+        const trackIds = event.tracks.map(track => track.id);
+        const eventErrors = judges.flatMap(judge => (judge.tracks || [])
+            .filter(track => !trackIds.includes(track))
+            .map(track => `judge "${judge.name}": unknown track ${JSON.stringify(track)}`));
+
+        const technologySignatures = await this.technologySignatures.get();
+        for (const award of event.awards || []) {
+            if (award.method === 'judge-top-score' && !judges.some(judge => judge.id === award.judgeId)) {
+                eventErrors.push(`award "${award.name}": judge ${JSON.stringify(award.judgeId)} is not an enabled judge of this run`);
+            }
+            const unknownTechnologies = (award.requiredTechnologies || []).filter(id => !technologySignatures.some(signature => signature.id === id));
+            if (unknownTechnologies.length > 0) {
+                eventErrors.push(`award "${award.name}": unknown technologies ${unknownTechnologies.map(id => JSON.stringify(id)).join(', ')}`);
+            }
+        }
+
+        const unjudged = projects.filter(project => judgesForTrack(judges, project.track).length === 0);
+        if (unjudged.length > 0) {
+            eventErrors.push(`no enabled judge evaluates ${unjudged.map(project => project.name).join(', ')}; add a judge for their track or one without tracks`);
+        }
+
+        // A scoped judge's variables only need values for the projects in its tracks
+        for (const judge of judges.filter(candidate => candidate.kind !== 'human')) {
+            const contexts = projects
+                .filter(project => judgesForTrack([judge], project.track).length > 0)
+                .map(project => buildTemplateContext(event, project));
+            eventErrors.push(
+                ...checkTemplate(judge.prompt, contexts, `judge "${judge.name}"`),
+                ...checkTemplate(judge.systemPrompt || '', contexts, `judge "${judge.name}" system prompt`)
+            );
+        }
+
+        if (eventErrors.length > 0) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: eventErrors.join('; ') }));
+            return;
+        }
+
+        const run = await this.judgingRuns.createRun({
+            projectIds,
+            judges,
+            seed: typeof requestData.seed === 'number' ? requestData.seed : undefined,
+            masterJudge: masterJudge.settings,
+            cache: requestData.cache,
+            mapReduce,
+            ranking,
+            samplesPerJudge: typeof samplesPerJudge === 'number' ? samplesPerJudge : undefined,
+            prizeCount: typeof prizeCount === 'number' ? prizeCount : undefined,
+            normalization: requestData.normalization ?? undefined,
+            blend,
+            event,
+            technologySignatures
+        });
+
+        res.writeHead(202, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, run }));
+    }
+
+    /**
+     * GET /api/feedback?runId=... downloads a ZIP with one feedback document
+     * per team of the run. With anonymize=true the documents leave out ranks
+     * and other teams' names, so they can be handed to the teams as they are.
+     */
+    private async handleFeedback(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            await this.handleCORS(res);
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        await this.handleCORS(res);
+
+        if (req.method !== 'GET') {
+            res.writeHead(405, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Method not allowed' }));
+            return;
+        }
+
+        const query = parse(req.url || '', true).query;
+        const run = typeof query.runId === 'string' ? await this.judgingRuns.getRun(query.runId) : undefined;
+        if (!run) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: 'Judging run not found' }));
+            return;
+        }
+
+        if (run.status !== 'completed' && run.status !== 'failed') {
+            res.writeHead(409, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: false, error: `Judging run is still ${run.status}` }));
+            return;
+        }
+
+        const documents = feedbackDocuments(run, { anonymize: query.anonymize === 'true' });
+        console.log(`📝 Creating feedback bundle for run ${run.id}: ${documents.length} teams${query.anonymize === 'true' ? ' (anonymized)' : ''}`);
+
+        const zipFile = new yazl.ZipFile();
+        for (const document of documents) {
+            zipFile.addBuffer(Buffer.from(document.content, 'utf-8'), document.filename);
+        }
+        zipFile.end();
+
+        res.writeHead(200, {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="team-feedback-${run.id}.zip"`,
+            'Transfer-Encoding': 'chunked'
+        });
+        zipFile.outputStream.pipe(res);
+
+        zipFile.outputStream.on('error', (error) => {
+            console.error('❌ Feedback ZIP stream error:', error);
+            if (!res.headersSent) {
+                res.writeHead(500);
+                res.end('ZIP creation failed');
+            }
+        });
+    }
+
     private async handleDownload(req: IncomingMessage, res: ServerResponse): Promise<void> {
         const startTime = Date.now();
         console.log(`📥 Download request received`);
@@ -969,8 +1985,8 @@ class HackathonServer {
 
             await this.handleCORS(res);
             
-            const body = await this.readBody(req);
-            const requestData = JSON.parse(body) as DownloadRequest;
+            const requestData = await this.readJsonBody<DownloadRequest>(req, res);
+            if (!requestData) return;
 
             if (!requestData.files || !Array.isArray(requestData.files)) {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -1116,7 +2132,15 @@ Note: These are the filtered and processed files after removing:
         }
     }
 
-    public start(): void {
+    public async start(): Promise<void> {
+        await this.projectStore.initialize();
+        await this.humanScores.initialize();
+        await this.judgePanels.initialize();
+        await this.eventConfig.initialize();
+        await this.technologySignatures.initialize();
+        await this.responseCache.initialize();
+        await this.judgingRuns.initialize();
+        
         const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
             const parsedUrl = parse(req.url || '');
             const pathname = parsedUrl.pathname;
@@ -1138,8 +2162,24 @@ Note: These are the filtered and processed files after removing:
                     await this.handleUpload(req as MulterRequest, res);
                 } else if (pathname === '/api/claude') {
                     await this.handleClaudeRequest(req, res);
+                } else if (pathname === '/api/models') {
+                    await this.handleModels(req, res);
+                } else if (pathname === '/api/judging-runs' || pathname?.startsWith('/api/judging-runs/')) {
+                    await this.handleJudgingRuns(req, res, pathname);
+                } else if (pathname === '/api/judge-panels' || pathname?.startsWith('/api/judge-panels/')) {
+                    await this.handleJudgePanels(req, res, pathname);
+                } else if (pathname === '/api/human-scores') {
+                    await this.handleHumanScores(req, res);
+                } else if (pathname === '/api/event') {
+                    await this.handleEvent(req, res);
+                } else if (pathname === '/api/technology-signatures') {
+                    await this.handleTechnologySignatures(req, res);
+                } else if (pathname === '/api/technology-usage') {
+                    await this.handleTechnologyUsage(req, res);
                 } else if (pathname === '/api/download') {
                     await this.handleDownload(req, res);
+                } else if (pathname === '/api/feedback') {
+                    await this.handleFeedback(req, res);
                 } else {
                     await this.handleStaticFiles(req, res);
                 }
@@ -1162,14 +2202,23 @@ Note: These are the filtered and processed files after removing:
 
         server.listen(this.port, () => {
             console.log(`🚀 Hackathon Judgementals server running at http://localhost:${this.port}`);
-            console.log(`📋 Make sure to set your ANTHROPIC_API_KEY environment variable`);
+            console.log(`🧠 LLM provider: ${this.llmProvider.name}`);
             console.log(`🎯 API endpoints:`);
             console.log(`   📤 Upload: http://localhost:${this.port}/api/upload`);
             console.log(`   🤖 Claude: http://localhost:${this.port}/api/claude`);
+            console.log(`   🧠 Models: http://localhost:${this.port}/api/models`);
+            console.log(`   🏁 Judging runs: http://localhost:${this.port}/api/judging-runs`);
+            console.log(`   📡 Run progress: http://localhost:${this.port}/api/judging-runs/:id/events`);
+            console.log(`   💰 Run usage: http://localhost:${this.port}/api/judging-runs/:id/usage`);
+            console.log(`   📊 Run results export: http://localhost:${this.port}/api/judging-runs/:id/export?format=csv|json|xlsx|markdown`);
+            console.log(`   📝 Team feedback: http://localhost:${this.port}/api/feedback?runId=:id`);
         });
     }
 }
 
 // Start the server
 const server = new HackathonServer();
-server.start();
\ No newline at end of file
+server.start().catch(error => {
+    console.error('❌ Failed to start server:', error);
+    process.exit(1);
+});
\ No newline at end of file
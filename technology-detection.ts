@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { DetectedTechnology, ProjectFile, TechnologyEvidenceKind, TechnologySignature } from './judging-types';
+
+// Enough to show where a technology is used without listing every call site
+const MAX_EVIDENCE_PER_TECHNOLOGY = 10;
+
+const MAX_EVIDENCE_TEXT_CHARS = 200;
+
+export const DEFAULT_TECHNOLOGY_SIGNATURES: TechnologySignature[] = [
+    { id: 'anthropic', name: 'Anthropic API', packages: ['@anthropic-ai/sdk', 'anthropic'], imports: ['@anthropic-ai/sdk', 'anthropic'], endpoints: ['api.anthropic.com'] },
+    { id: 'openai', name: 'OpenAI API', packages: ['openai'], imports: ['openai'], endpoints: ['api.openai.com'] },
+    { id: 'stripe', name: 'Stripe', packages: ['stripe', '@stripe/stripe-js'], imports: ['stripe', '@stripe/stripe-js'], endpoints: ['api.stripe.com'] },
+    { id: 'twilio', name: 'Twilio', packages: ['twilio'], imports: ['twilio'], endpoints: ['api.twilio.com'] },
+    { id: 'supabase', name: 'Supabase', packages: ['@supabase/supabase-js', 'supabase'], imports: ['@supabase/supabase-js', 'supabase'], endpoints: ['.supabase.co'] },
+    { id: 'firebase', name: 'Firebase', packages: ['firebase', 'firebase-admin'], imports: ['firebase', 'firebase-admin', 'firebase_admin'], endpoints: ['firebaseio.com', 'firestore.googleapis.com'] },
+    { id: 'mongodb', name: 'MongoDB', packages: ['mongodb', 'mongoose', 'pymongo'], imports: ['mongodb', 'mongoose', 'pymongo'], endpoints: ['mongodb+srv://'] }
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// How each kind of dependency manifest lists a package, one dependency per line
+const MANIFESTS: Array<{ file: RegExp; dependency: (name: string) => RegExp }> = [
+    { file: /(^|\/)(package|composer)\.json$/, dependency: name => new RegExp(`^\\s*"${escapeRegExp(name)}"\\s*:`) },
+    { file: /(^|\/)requirements[^/]*\.txt$/i, dependency: name => new RegExp(`^\\s*${escapeRegExp(name)}\\s*(\\[[^\\]]*\\])?\\s*([=<>~!;@]|$)`, 'i') },
+    { file: /(^|\/)(pyproject\.toml|Pipfile|setup\.py|setup\.cfg)$/, dependency: name => new RegExp(`(^|["'\\s])${escapeRegExp(name)}\\s*(\\[[^\\]]*\\])?\\s*(["'=<>~!,]|$)`, 'i') },
+    { file: /(^|\/)go\.mod$/, dependency: name => new RegExp(`(^|\\s)${escapeRegExp(name)}(/|\\s|$)`) },
+    { file: /(^|\/)Cargo\.toml$/, dependency: name => new RegExp(`^\\s*${escapeRegExp(name)}\\s*=`) },
+    { file: /(^|\/)Gemfile$/, dependency: name => new RegExp(`^\\s*gem\\s+["']${escapeRegExp(name)}["']`) }
+];
+
+// Module names in import statements, by source language
+const IMPORTS: Array<{ file: RegExp; patterns: RegExp[] }> = [
+    {
+        file: /\.(js|jsx|ts|tsx|mjs|cjs|vue|svelte)$/,
+        patterns: [/\bfrom\s+['"]([^'"]+)['"]/g, /\bimport\s+['"]([^'"]+)['"]/g, /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g]
+    },
+    { file: /\.py$/, patterns: [/^\s*from\s+([\w.]+)\s+import\b/g, /^\s*import\s+([\w.]+)/g] },
+    { file: /\.go$/, patterns: [/^\s*(?:import\s+)?(?:[\w.]+\s+)?"([^"]+)"\s*$/g] },
+    { file: /\.(java|kt|scala)$/, patterns: [/^\s*import\s+(?:static\s+)?([\w.]+)/g] },
+    { file: /\.rb$/, patterns: [/^\s*require\s+['"]([^'"]+)['"]/g] }
+];
+
+// Lockfiles list every transitive dependency, and docs only talk about technologies
+const SKIPPED_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|poetry\.lock|Cargo\.lock|go\.sum|Gemfile\.lock)$|\.(md|markdown|txt|rst)$/i;
+
+function matchesModule(specifier: string, module: string): boolean {
+    return specifier === module || specifier.startsWith(`${module}/`) || specifier.startsWith(`${module}.`);
+}
+
+/**
+ * Finds which of the signatures' technologies a project uses, from its
+ * dependency manifests, import statements and API endpoint strings. Every
+ * detection carries file and line evidence.
+ */
+export function detectTechnologies(files: ProjectFile[], signatures: TechnologySignature[]): DetectedTechnology[] {
+    const found = new Map<string, DetectedTechnology>();
+    const record = (signature: TechnologySignature, kind: TechnologyEvidenceKind, file: ProjectFile, index: number, line: string) => {
+        const detected = found.get(signature.id) || { technologyId: signature.id, name: signature.name, evidence: [], evidenceCount: 0 };
+        detected.evidenceCount++;
+        if (detected.evidence.length < MAX_EVIDENCE_PER_TECHNOLOGY) {
+            const text = line.trim();
+            detected.evidence.push({ kind, path: file.path, line: index + 1, text: text.length > MAX_EVIDENCE_TEXT_CHARS ? `${text.slice(0, MAX_EVIDENCE_TEXT_CHARS)}...` : text });
+        }
+        found.set(signature.id, detected);
+    };
+
+    for (const file of files) {
+        // Manifests such as requirements.txt are read even though other .txt files are skipped
+        const manifest = MANIFESTS.find(candidate => candidate.file.test(file.path));
+        if (!file.content || (!manifest && SKIPPED_FILES.test(file.path))) continue;
+
+        const imports = IMPORTS.find(candidate => candidate.file.test(file.path));
+        const lines = file.content.split(/\r?\n/);
+
+        lines.forEach((line, index) => {
+            const specifiers = imports ? imports.patterns.flatMap(pattern => Array.from(line.matchAll(pattern), match => match[1])) : [];
+
+            for (const signature of signatures) {
+                // One piece of evidence per line, the most specific kind first
+                if (manifest && (signature.packages || []).some(name => manifest.dependency(name).test(line))) {
+                    record(signature, 'dependency', file, index, line);
+                    continue;
+                }
+
+                if (specifiers.some(specifier => (signature.imports || []).some(module => matchesModule(specifier, module)))) {
+                    record(signature, 'import', file, index, line);
+                    continue;
+                }
+
+                if ((signature.endpoints || []).some(endpoint => line.includes(endpoint))) {
+                    record(signature, 'endpoint', file, index, line);
+                }
+            }
+        });
+    }
+
+    // In signature order, so every project lists technologies the same way
+    return signatures.map(signature => found.get(signature.id)).filter((detected): detected is DetectedTechnology => !!detected);
+}
+
+/**
+ * Checks a signature list from the UI and returns it with only the known
+ * fields. IDs are derived from the names when missing.
+ */
+export function validateTechnologySignatures(raw: unknown): { signatures: TechnologySignature[]; errors: string[] } {
+    if (!Array.isArray(raw)) {
+        return { signatures: [], errors: ['signatures must be an array'] };
+    }
+
+    const errors: string[] = [];
+    const signatures: TechnologySignature[] = [];
+    const isStringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim()));
+
+    for (const candidate of raw) {
+        if (!candidate || typeof candidate.name !== 'string' || !candidate.name.trim()) {
+            errors.push('every signature needs a name');
+            continue;
+        }
+
+        const name = candidate.name.trim();
+        const id = typeof candidate.id === 'string' && candidate.id.trim() ?
+            candidate.id.trim() :
+            name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        if (signatures.some(existing => existing.id === id)) {
+            errors.push(`signature "${name}" is defined more than once`);
+            continue;
+        }
+        if (!isStringList(candidate.packages) || !isStringList(candidate.imports) || !isStringList(candidate.endpoints)) {
+            errors.push(`signature "${name}": packages, imports and endpoints must be lists of text`);
+            continue;
+        }
+
+        const signature: TechnologySignature = { id, name };
+        for (const field of ['packages', 'imports', 'endpoints'] as const) {
+            const values = (candidate[field] as string[] | undefined || []).map(value => value.trim());
+            if (values.length > 0) signature[field] = values;
+        }
+        if (!signature.packages && !signature.imports && !signature.endpoints) {
+            errors.push(`signature "${name}" needs at least one package, import or endpoint`);
+            continue;
+        }
+        signatures.push(signature);
+    }
+
+    return { signatures, errors: Array.from(new Set(errors)) };
+}
+
+/** Keeps the technology signature list in a single JSON file, with built-in defaults until one is saved. */
+export class TechnologySignatureStore {
+    constructor(private readonly signaturesPath: string) {}
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(dirname(this.signaturesPath), { recursive: true });
+    }
+
+    async get(): Promise<TechnologySignature[]> {
+        try {
+            return JSON.parse(await fs.readFile(this.signaturesPath, 'utf-8')) as TechnologySignature[];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('❌ Error reading the technology signatures:', error);
+            }
+            return DEFAULT_TECHNOLOGY_SIGNATURES;
+        }
+    }
+
+    async save(signatures: TechnologySignature[]): Promise<void> {
+        await fs.writeFile(this.signaturesPath, JSON.stringify(signatures, null, 2), 'utf-8');
+        console.log(`🔍 Stored ${signatures.length} technology signatures`);
+    }
+}
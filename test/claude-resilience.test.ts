@@ -0,0 +1,178 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from '../llm-provider';
+import { CircuitBreaker, ClaudeCallError, ResilientCaller } from '../claude-resilience';
+
+// Every retry and circuit change is logged
+mock.method(console, 'log', () => {});
+
+type Handler = (model: string, res: ServerResponse) => void | Promise<void>;
+
+/** A stand-in for the Messages API that answers each request with the given handler. */
+async function startFakeApi(handler: Handler): Promise<{ server: Server; baseURL: string; requests: string[] }> {
+    const requests: string[] = [];
+    const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', async () => {
+            const model = JSON.parse(body).model as string;
+            requests.push(model);
+            await handler(model, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+function reply(res: ServerResponse, status: number, headers: Record<string, string> = {}): void {
+    const body = status === 200 ?
+        { id: 'msg_1', type: 'message', role: 'assistant', model: 'test', content: [{ type: 'text', text: 'ok' }], stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 } } :
+        { type: 'error', error: { type: 'api_error', message: `status ${status}` } };
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function send(provider: AnthropicProvider) {
+    return (model: string) => provider.complete({ model, maxTokens: 10, system: '', messages: [{ role: 'user', content: 'hi' }] });
+}
+
+test('waits for retry-after on 429 before retrying', async () => {
+    const api = await startFakeApi((_, res) => reply(res, api.requests.length === 1 ? 429 : 200, { 'retry-after-ms': '80' }));
+    try {
+        const caller = new ResilientCaller({ baseDelayMs: 1, maxDelayMs: 1000 });
+        const startTime = Date.now();
+        const { attempts } = await caller.execute('primary', send(new AnthropicProvider('key', api.baseURL)));
+
+        assert.equal(api.requests.length, 2);
+        assert.equal(attempts[0].status, 429);
+        assert.equal(attempts[0].retryInMs, 80);
+        assert.ok(Date.now() - startTime >= 80);
+    } finally {
+        api.server.close();
+    }
+});
+
+test('backs off exponentially within the configured ceiling', async () => {
+    const api = await startFakeApi((_, res) => reply(res, api.requests.length <= 3 ? 503 : 200));
+    try {
+        const caller = new ResilientCaller({ baseDelayMs: 10, maxDelayMs: 25 });
+        const { attempts } = await caller.execute('primary', send(new AnthropicProvider('key', api.baseURL)));
+
+        assert.equal(attempts.length, 4);
+        assert.deepEqual(attempts.map(attempt => attempt.outcome), ['error', 'error', 'error', 'success']);
+        const ceilings = [10, 20, 25];
+        attempts.slice(0, 3).forEach((attempt, index) => assert.ok(attempt.retryInMs! <= ceilings[index]));
+    } finally {
+        api.server.close();
+    }
+});
+
+test('does not retry requests the API rejects as invalid', async () => {
+    const api = await startFakeApi((_, res) => reply(res, 400));
+    try {
+        const caller = new ResilientCaller({ baseDelayMs: 1, fallbackModels: ['fallback'] });
+        await assert.rejects(caller.execute('primary', send(new AnthropicProvider('key', api.baseURL))), ClaudeCallError);
+        assert.deepEqual(api.requests, ['primary']);
+    } finally {
+        api.server.close();
+    }
+});
+
+test('falls back to the next model once the primary gives up', async () => {
+    const api = await startFakeApi((model, res) => reply(res, model === 'primary' ? 404 : 200));
+    try {
+        const caller = new ResilientCaller({ maxRetries: 1, baseDelayMs: 1, fallbackModels: ['fallback'] });
+        const { model } = await caller.execute('primary', send(new AnthropicProvider('key', api.baseURL)));
+
+        assert.equal(model, 'fallback');
+        assert.deepEqual(api.requests, ['primary', 'primary', 'fallback']);
+    } finally {
+        api.server.close();
+    }
+});
+
+test('opens the circuit, admits one half-open probe and closes on its success', async () => {
+    let healthy = false;
+    const api = await startFakeApi(async (_, res) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        reply(res, healthy ? 200 : 500);
+    });
+    try {
+        const caller = new ResilientCaller({ maxRetries: 0, circuitFailureThreshold: 1, circuitResetMs: 50 });
+        const call = send(new AnthropicProvider('key', api.baseURL));
+
+        await assert.rejects(caller.execute('primary', call));
+        const rejected = await caller.execute('primary', call).catch((error: ClaudeCallError) => error);
+        assert.equal((rejected as ClaudeCallError).attempts[0].outcome, 'circuit-open');
+        assert.equal(api.requests.length, 1);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        healthy = true;
+        const results = await Promise.allSettled([caller.execute('primary', call), caller.execute('primary', call)]);
+
+        assert.equal(api.requests.length, 2, 'only the probe reaches the API');
+        assert.deepEqual(results.map(result => result.status).sort(), ['fulfilled', 'rejected']);
+        await caller.execute('primary', call);
+        assert.equal(api.requests.length, 3);
+    } finally {
+        api.server.close();
+    }
+});
+
+test('re-opens the circuit when the half-open probe fails', () => {
+    const breaker = new CircuitBreaker(3, 0);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'open');
+
+    assert.ok(breaker.canAttempt());
+    assert.equal(breaker.getState(), 'half-open');
+    assert.equal(breaker.canAttempt(), false);
+
+    breaker.recordFailure();
+    assert.equal(breaker.getState(), 'open');
+    assert.ok(breaker.canAttempt());
+    breaker.recordSuccess();
+    assert.equal(breaker.getState(), 'closed');
+});
+
+test('rethrows errors without a response at once instead of retrying or failing over', async () => {
+    const caller = new ResilientCaller({ baseDelayMs: 1, circuitFailureThreshold: 1, fallbackModels: ['fallback'] });
+    const models: string[] = [];
+    const broken = async (model: string) => {
+        models.push(model);
+        throw new TypeError('Cannot read properties of undefined');
+    };
+
+    await assert.rejects(caller.execute('primary', broken), ClaudeCallError);
+    assert.deepEqual(models, ['primary']);
+
+    // The circuit stays closed, so a healthy call still reaches the model
+    const { model } = await caller.execute('primary', async () => 'ok');
+    assert.equal(model, 'primary');
+});
+
+test('retries connection failures', async () => {
+    const api = await startFakeApi((_, res) => reply(res, 200));
+    await new Promise(resolve => api.server.close(resolve));
+
+    const caller = new ResilientCaller({ maxRetries: 2, baseDelayMs: 1 });
+    const error = await caller.execute('primary', send(new AnthropicProvider('key', api.baseURL))).catch((failure: ClaudeCallError) => failure);
+
+    assert.ok(error instanceof ClaudeCallError);
+    assert.equal(error.attempts.length, 3);
+    assert.ok(error.attempts.every(attempt => attempt.outcome === 'error' && attempt.status === undefined));
+});
+
+test('lets the next caller probe when a half-open trial fails without a response', () => {
+    const breaker = new CircuitBreaker(1, 0);
+    breaker.recordFailure();
+    assert.ok(breaker.canAttempt());
+
+    breaker.releaseTrial();
+    assert.equal(breaker.getState(), 'open');
+    assert.ok(breaker.canAttempt());
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTokens, packProject, packProjectNotes } from '../context-packer';
+import { ProjectFile, StoredProject } from '../judging-types';
+
+function file(path: string, content: string, type = 'text/plain'): ProjectFile {
+    return { name: path.split('/').pop()!, path, content, type, size: content.length };
+}
+
+function project(files: ProjectFile[]): StoredProject {
+    return { id: 'p1', name: 'Demo', files, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+test('includes small projects in full', () => {
+    const packed = packProject(project([file('README.md', '# Demo'), file('src/index.ts', 'console.log(1);', 'text/typescript')]), 10000, 'test', 20000);
+
+    assert.equal(packed.manifest.includedFiles, 2);
+    assert.ok(packed.text.includes('console.log(1);'));
+    assert.ok(packed.manifest.files.every(entry => entry.status === 'included'));
+});
+
+test('stays within the token budget by eliding, outlining or dropping files', () => {
+    const big = Array.from({ length: 400 }, (_, index) => `function f${index}() { return ${index}; }`).join('\n');
+    const files = Array.from({ length: 6 }, (_, index) => file(`src/module${index}.ts`, big, 'text/typescript'));
+    const packed = packProject(project([file('README.md', '# Demo'), ...files]), 3000, 'test', 20000);
+
+    assert.ok(estimateTokens(packed.text) <= 3000);
+    assert.ok(packed.manifest.usedTokens <= 3000);
+    assert.ok(packed.manifest.files.some(entry => entry.status !== 'included'));
+    assert.equal(packed.manifest.files.find(entry => entry.path === 'README.md')?.status, 'included');
+});
+
+test('lists binary files as binary in both packers', () => {
+    const files = [file('README.md', '# Demo'), file('logo.png', 'iVBORw0KGgo=', 'image/png')];
+    const single = packProject(project(files), 10000, 'test', 20000);
+    const notes = packProjectNotes(project(files), { chunks: [], usage: { calls: 0, cachedCalls: 0, unpricedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 } }, 10000, 'test', 20000);
+
+    for (const packed of [single, notes]) {
+        const entry = packed.manifest.files.find(candidate => candidate.path === 'logo.png')!;
+        assert.equal(entry.status, 'binary');
+        assert.ok(entry.tokens > 0);
+        assert.ok(packed.text.includes('[Binary file - image/png'));
+    }
+});
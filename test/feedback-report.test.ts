@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { feedbackDocument, feedbackDocuments } from '../feedback-report';
+import { JudgingRun, ProjectEvaluation } from '../judging-types';
+
+function evaluation(projectName: string, summary: string, finalRank?: number): ProjectEvaluation {
+    return {
+        projectId: projectName,
+        projectName,
+        finalRank,
+        rankReasoning: `Ranked #${finalRank} ahead of Green Grid Pro`,
+        judgeResults: [{ judgeId: 'j1', judgeName: 'Judge One', summary, score: 7, likes: [], dislikes: [] }]
+    };
+}
+
+function run(evaluations: ProjectEvaluation[]): JudgingRun {
+    return {
+        id: 'run1',
+        status: 'completed',
+        projectIds: evaluations.map(entry => entry.projectId),
+        judges: [],
+        seed: 1,
+        evaluations,
+        events: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+}
+
+test('keeps ranks and the master judge reasoning unless anonymized', () => {
+    const results = run([evaluation('Own Project', 'Fine', 1), evaluation('Green Grid Pro', 'Fine', 2)]);
+    const document = feedbackDocument(results, results.evaluations[0]);
+
+    assert.ok(document.includes('Rank: #1 of 2'));
+    assert.ok(document.includes('## Master judge'));
+    assert.ok(document.includes('ahead of Green Grid Pro'));
+});
+
+test('leaves out ranks and the master judge reasoning when anonymized', () => {
+    const results = run([evaluation('Own Project', 'Fine', 1), evaluation('Green Grid Pro', 'Fine', 2)]);
+    const document = feedbackDocument(results, results.evaluations[0], { anonymize: true });
+
+    assert.ok(!document.includes('Rank:'));
+    assert.ok(!document.includes('## Master judge'));
+    assert.ok(!document.includes('Green Grid'));
+});
+
+test('replaces distinctive team names whatever their case', () => {
+    const own = evaluation('Own Project', 'Cleaner than GREEN GRID PRO and sharper than DevHub, though devhub has tests.');
+    const results = run([own, evaluation('Green Grid Pro', 'Fine'), evaluation('DevHub', 'Fine')]);
+    const document = feedbackDocument(results, own, { anonymize: true });
+
+    assert.ok(document.includes('Cleaner than another team and sharper than another team, though another team has tests.'));
+});
+
+test('replaces team names that are ordinary words where written as the name', () => {
+    const own = evaluation('Own Project', 'Unlike Pulse, the bridge to the api is solid, closer to "Bridge" than to API.');
+    const results = run([own, evaluation('Bridge', 'Fine'), evaluation('Pulse', 'Fine'), evaluation('API', 'Fine')]);
+    const document = feedbackDocument(results, own, { anonymize: true });
+
+    assert.ok(document.includes('Unlike another team, the bridge to the api is solid, closer to "another team" than to another team.'));
+});
+
+test('gives every team a unique feedback file name', () => {
+    const documents = feedbackDocuments(run([evaluation('My App!', 'Fine'), evaluation('My App?', 'Fine'), evaluation('???', 'Fine')]));
+    assert.deepEqual(documents.map(document => document.filename), ['My-App-feedback.md', 'My-App-2-feedback.md', 'project-feedback.md']);
+});
@@ -0,0 +1,65 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClaudeCallRequest, ClaudeResponse, JudgingPipeline } from '../judging-pipeline';
+import { ProjectEvaluation } from '../judging-types';
+import { PriceTable } from '../usage-accounting';
+
+// Invalid rankings are logged
+mock.method(console, 'log', () => {});
+
+function evaluation(projectId: string, projectName: string, score: number): ProjectEvaluation {
+    return { projectId, projectName, judgeResults: [{ judgeId: 'j1', judgeName: 'Judge', summary: '', score, likes: [], dislikes: [] }] };
+}
+
+/** A pipeline whose master judge gives the scripted rankings in turn, and the requests it was sent. */
+function scriptedPipeline(answers: object[]): { pipeline: JudgingPipeline; requests: ClaudeCallRequest[] } {
+    const requests: ClaudeCallRequest[] = [];
+    const callClaude = async (request: ClaudeCallRequest): Promise<ClaudeResponse> => {
+        requests.push(JSON.parse(JSON.stringify(request)));
+        const input = answers[requests.length - 1];
+        return { content: '', usage: {}, toolUse: { id: `call${requests.length}`, name: 'submit_ranking', input }, model: 'test', attempts: [], cacheHit: false };
+    };
+    const limits = () => ({ model: 'test', contextWindow: 200000, maxOutputTokens: 4096 });
+    return { pipeline: new JudgingPipeline(callClaude, new PriceTable(), limits), requests };
+}
+
+const cohort = () => [evaluation('p1', 'Solar Tracker', 6), evaluation('p2', 'Code Buddy', 9), evaluation('p3', 'Meal Planner', 7)];
+const valid = { rankings: [{ projectId: 'p2', rank: 1, reasoning: '' }, { projectId: 'p3', rank: 2, reasoning: '' }, { projectId: 'p1', rank: 3, reasoning: '' }] };
+const duplicate = { rankings: [{ projectId: 'p2', rank: 1, reasoning: '' }, { projectId: 'p3', rank: 1, reasoning: '' }, { projectId: 'p1', rank: 3, reasoning: '' }] };
+
+test('uses a valid ranking without a retry', async () => {
+    const { pipeline, requests } = scriptedPipeline([valid]);
+    const ranking = await pipeline.getFinalRanking(cohort(), 1);
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(ranking.evaluations.map(entry => [entry.projectId, entry.rankSource]), [['p2', 'master-judge'], ['p3', 'master-judge'], ['p1', 'master-judge']]);
+    assert.equal(ranking.validationErrors, undefined);
+});
+
+test('sends the validation errors back and uses the repaired ranking', async () => {
+    const { pipeline, requests } = scriptedPipeline([duplicate, valid]);
+    const ranking = await pipeline.getFinalRanking(cohort(), 1);
+
+    assert.equal(requests.length, 2);
+    const repair = requests[1].messages[2].content as Array<{ type: string; is_error?: boolean; content: string }>;
+    assert.equal(repair[0].type, 'tool_result');
+    assert.equal(repair[0].is_error, true);
+    assert.ok(repair[0].content.includes('rank 1 is given to both Code Buddy and Meal Planner'));
+    assert.deepEqual(ranking.evaluations.map(entry => entry.rankSource), ['master-judge-retry', 'master-judge-retry', 'master-judge-retry']);
+    assert.equal(ranking.usage.calls, 2);
+});
+
+test('labels a ranking that stays invalid as partial and keeps its errors', async () => {
+    const { pipeline } = scriptedPipeline([duplicate, duplicate]);
+    const ranking = await pipeline.getFinalRanking(cohort(), 1);
+
+    assert.deepEqual(ranking.evaluations.map(entry => [entry.projectId, entry.rankSource]), [
+        ['p2', 'master-judge-partial'],
+        ['p3', 'average-score'],
+        ['p1', 'master-judge-partial']
+    ]);
+    assert.deepEqual(ranking.validationErrors, [
+        'rank 1 is given to both Code Buddy and Meal Planner; every rank must be used exactly once',
+        'these projects are missing from the ranking: Meal Planner'
+    ]);
+});
@@ -0,0 +1,72 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ReplayProvider } from '../llm-provider';
+import { ClaudeTool } from '../judging-pipeline';
+
+// Every synthesized answer is logged
+mock.method(console, 'log', () => {});
+
+const provider = new ReplayProvider(mkdtempSync(join(tmpdir(), 'fixtures-')));
+
+function ask(tool: ClaudeTool, prompt: string) {
+    return provider.complete({ model: 'test', maxTokens: 10, system: '', messages: [{ role: 'user', content: prompt }], tool });
+}
+
+test('synthesizes a permutation for a ranking schema', async () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    const tool: ClaudeTool = {
+        name: 'submit_ranking',
+        description: '',
+        input_schema: {
+            type: 'object',
+            properties: {
+                rankings: {
+                    type: 'array',
+                    minItems: ids.length,
+                    maxItems: ids.length,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            projectId: { type: 'string', enum: ids },
+                            rank: { type: 'integer', minimum: 1, maximum: ids.length }
+                        }
+                    }
+                }
+            }
+        }
+    };
+
+    const response = await ask(tool, 'rank these');
+    const rankings = response.toolUse!.input.rankings as Array<{ projectId: string; rank: number }>;
+    assert.deepEqual(rankings.map(entry => entry.projectId).sort(), ids);
+    assert.deepEqual(rankings.map(entry => entry.rank), [1, 2, 3, 4, 5]);
+});
+
+test('picks enum values with the seeded generator instead of always the first', async () => {
+    const tool: ClaudeTool = {
+        name: 'submit_comparison',
+        description: '',
+        input_schema: { type: 'object', properties: { winner: { type: 'string', enum: ['A', 'B', 'tie'] } } }
+    };
+
+    const winners = await Promise.all(Array.from({ length: 20 }, (_, index) => ask(tool, `compare ${index}`)));
+    assert.ok(new Set(winners.map(response => response.toolUse!.input.winner)).size > 1);
+
+    // The same prompt always gets the same answer
+    assert.deepEqual((await ask(tool, 'compare 3')).toolUse, winners[3].toolUse);
+});
+
+test('picks distinct IDs for a list of enum values', async () => {
+    const tool: ClaudeTool = {
+        name: 'submit_award',
+        description: '',
+        input_schema: { type: 'object', properties: { runnersUp: { type: 'array', items: { type: 'string', enum: ['a', 'b', 'c'] }, maxItems: 2 } } }
+    };
+
+    const runnersUp = (await ask(tool, 'award')).toolUse!.input.runnersUp as string[];
+    assert.equal(runnersUp.length, 2);
+    assert.equal(new Set(runnersUp).size, 2);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitBradleyTerry, PairwiseGame, toRating } from '../pairwise-ranking';
+
+// Each pair judged in both orders, as the tournament does
+function bothOrders(a: number, b: number, scoreA: number): PairwiseGame[] {
+    return [{ a, b, scoreA }, { a: b, b: a, scoreA: 1 - scoreA }];
+}
+
+function geometricMean(values: number[]): number {
+    return Math.exp(values.reduce((sum, value) => sum + Math.log(value), 0) / values.length);
+}
+
+test('orders projects by their wins', () => {
+    const games = [...bothOrders(0, 1, 1), ...bothOrders(1, 2, 1), ...bothOrders(0, 2, 1)];
+    const strengths = fitBradleyTerry(3, games);
+
+    assert.ok(strengths[0] > strengths[1] && strengths[1] > strengths[2]);
+    assert.ok(Math.abs(geometricMean(strengths) - 1) < 1e-9);
+});
+
+test('gives equal strengths when every game is a tie', () => {
+    const games = [...bothOrders(0, 1, 0.5), ...bothOrders(1, 2, 0.5), ...bothOrders(0, 2, 0.5)];
+    for (const strength of fitBradleyTerry(3, games)) {
+        assert.ok(Math.abs(strength - 1) < 1e-6);
+    }
+});
+
+test('keeps an unbeaten project at a finite strength', () => {
+    const games = [...bothOrders(0, 1, 1), ...bothOrders(0, 2, 1), ...bothOrders(0, 3, 1)];
+    const strengths = fitBradleyTerry(4, games);
+
+    assert.ok(Number.isFinite(strengths[0]));
+    assert.ok(strengths.slice(1).every(strength => strength > 0 && strength < strengths[0]));
+});
+
+test('converges to the same strengths from a warm start', () => {
+    const games = [...bothOrders(0, 1, 1), ...bothOrders(1, 2, 0.5), ...bothOrders(2, 3, 1), ...bothOrders(0, 3, 0)];
+    const cold = fitBradleyTerry(4, games);
+    const warm = fitBradleyTerry(4, games, cold.map(strength => strength * 1.1));
+
+    warm.forEach((strength, index) => assert.ok(Math.abs(strength - cold[index]) < 1e-6));
+});
+
+test('maps strengths to an Elo scale centred on 1500', () => {
+    assert.equal(toRating(1), 1500);
+    assert.equal(toRating(10), 1900);
+    assert.equal(toRating(0.1), 1100);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeRanking, validateRanking } from '../ranking-reconciliation';
+import { ProjectEvaluation } from '../judging-types';
+
+function evaluation(projectId: string, projectName: string, score: number): ProjectEvaluation {
+    return { projectId, projectName, judgeResults: [{ judgeId: 'j1', judgeName: 'Judge', summary: '', score, likes: [], dislikes: [] }] };
+}
+
+function cohort(): ProjectEvaluation[] {
+    return [evaluation('p1', 'Solar Tracker', 6), evaluation('p2', 'Code Buddy', 9), evaluation('p3', 'Meal Planner', 7)];
+}
+
+test('accepts a complete ranking by ID', () => {
+    const validation = validateRanking({
+        rankings: [
+            { projectId: 'p2', rank: 1, reasoning: 'best' },
+            { projectId: 'p3', rank: 2, reasoning: '' },
+            { projectId: 'p1', rank: 3, reasoning: '' }
+        ]
+    }, cohort());
+
+    assert.deepEqual(validation.errors, []);
+    assert.deepEqual(validation.entries.map(entry => [entry.projectId, entry.rank, entry.fuzzy]), [['p2', 1, false], ['p3', 2, false], ['p1', 3, false]]);
+});
+
+test('matches names exactly, ignoring case and punctuation, or by the closest similar name', () => {
+    const validation = validateRanking({
+        rankings: [
+            { projectName: 'code-buddy', rank: 1 },
+            { projectName: 'Meal Planer', rank: 2 },
+            { projectName: 'Solar Tracker', rank: 3 }
+        ]
+    }, cohort());
+
+    assert.deepEqual(validation.errors, []);
+    assert.deepEqual(validation.entries.map(entry => [entry.projectId, entry.fuzzy]), [['p2', false], ['p3', true], ['p1', false]]);
+});
+
+test('rejects names that are not close to a single project', () => {
+    const evaluations = [evaluation('p1', 'Project A1', 5), evaluation('p2', 'Project B1', 5)];
+    const validation = validateRanking({ rankings: [{ projectName: 'Project C1', rank: 1 }, { projectName: 'Weather App', rank: 2 }] }, evaluations);
+
+    assert.deepEqual(validation.entries, []);
+    assert.ok(validation.errors.includes('"Project C1" does not match any project'));
+    assert.ok(validation.errors.includes('"Weather App" does not match any project'));
+});
+
+test('reports duplicate, out-of-range and missing ranks but keeps the usable entries', () => {
+    const validation = validateRanking({
+        rankings: [
+            { projectId: 'p2', rank: 1 },
+            { projectId: 'p2', rank: 2 },
+            { projectId: 'p3', rank: 1 },
+            { projectId: 'p1', rank: 4 }
+        ]
+    }, cohort());
+
+    assert.deepEqual(validation.entries.map(entry => entry.projectId), ['p2']);
+    assert.deepEqual(validation.errors, [
+        'Code Buddy is ranked more than once',
+        'rank 1 is given to both Code Buddy and Meal Planner; every rank must be used exactly once',
+        'Solar Tracker has rank 4, but ranks must be whole numbers from 1 to 3',
+        'these projects are missing from the ranking: Solar Tracker, Meal Planner'
+    ]);
+});
+
+test('rejects an answer without a rankings array', () => {
+    assert.deepEqual(validateRanking({ ranking: [] }, cohort()).errors, ['"rankings" must be an array with one entry per project']);
+    assert.deepEqual(validateRanking(null, cohort()).entries, []);
+});
+
+test('fills ranks the master judge left out by average score', () => {
+    const evaluations = cohort();
+    const merged = mergeRanking(evaluations, [{ projectId: 'p1', rank: 1, reasoning: 'underrated', fuzzy: false }], 'master-judge-partial');
+
+    assert.deepEqual(merged.map(entry => [entry.projectId, entry.finalRank, entry.rankSource]), [
+        ['p1', 1, 'master-judge-partial'],
+        ['p2', 2, 'average-score'],
+        ['p3', 3, 'average-score']
+    ]);
+    assert.equal(merged[0].rankReasoning, 'underrated');
+    assert.equal(merged[1].rankReasoning, undefined);
+});
+
+test('labels entries matched by a similar name as fuzzy matches', () => {
+    const merged = mergeRanking(cohort(), [
+        { projectId: 'p3', rank: 1, reasoning: '', fuzzy: true },
+        { projectId: 'p2', rank: 2, reasoning: '', fuzzy: false },
+        { projectId: 'p1', rank: 3, reasoning: '', fuzzy: false }
+    ], 'master-judge');
+
+    assert.deepEqual(merged.map(entry => entry.rankSource), ['fuzzy-match', 'master-judge', 'master-judge']);
+});
+
+test('keeps the partial label on fuzzy matches of a ranking that stayed invalid', () => {
+    const merged = mergeRanking(cohort(), [{ projectId: 'p3', rank: 1, reasoning: '', fuzzy: true }], 'master-judge-partial');
+    assert.deepEqual(merged.map(entry => entry.rankSource), ['master-judge-partial', 'average-score', 'average-score']);
+});
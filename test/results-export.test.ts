@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as yauzl from 'yauzl';
+import { JudgeResult, JudgingRun, ProjectEvaluation } from '../judging-types';
+import { resultsToCsv, resultsToXlsx } from '../results-export';
+import { PriceTable } from '../usage-accounting';
+
+function result(judgeId: string, score: number, summary = 'Solid work'): JudgeResult {
+    return { judgeId, judgeName: judgeId.toUpperCase(), summary, score, likes: [], dislikes: [] };
+}
+
+function evaluation(projectId: string, projectName: string, finalRank: number | undefined, scores: number[]): ProjectEvaluation {
+    return { projectId, projectName, finalRank, judgeResults: scores.map((score, index) => result(`j${index + 1}`, score)) };
+}
+
+function run(evaluations: ProjectEvaluation[]): JudgingRun {
+    return {
+        id: 'run1',
+        status: 'completed',
+        projectIds: evaluations.map(entry => entry.projectId),
+        judges: [{ id: 'j1', name: 'Judge One' }, { id: 'j2', name: 'Judge Two' }] as JudgingRun['judges'],
+        seed: 1,
+        evaluations,
+        events: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+}
+
+/** Every part of the ZIP archive, by path. */
+function unzip(buffer: Buffer): Promise<Record<string, string>> {
+    return new Promise((resolve, reject) => {
+        yauzl.fromBuffer(buffer, { lazyEntries: true }, (error, zipFile) => {
+            if (error || !zipFile) return reject(error);
+            const parts: Record<string, string> = {};
+            zipFile.on('entry', (entry: yauzl.Entry) => {
+                zipFile.openReadStream(entry, (streamError, stream) => {
+                    if (streamError || !stream) return reject(streamError);
+                    const chunks: Buffer[] = [];
+                    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+                    stream.on('end', () => {
+                        parts[entry.fileName] = Buffer.concat(chunks).toString('utf-8');
+                        zipFile.readEntry();
+                    });
+                });
+            });
+            zipFile.on('end', () => resolve(parts));
+            zipFile.readEntry();
+        });
+    });
+}
+
+test('writes the leaderboard as CSV in rank order, unranked projects last', () => {
+    const csv = resultsToCsv(run([
+        evaluation('c', 'Unranked', undefined, [5, 5]),
+        evaluation('b', 'Second', 2, [6, 7]),
+        evaluation('a', 'First', 1, [9, 8])
+    ]));
+
+    assert.deepEqual(csv.trim().split('\n'), [
+        'rank,project,track,Judge One,Judge Two,average',
+        '1,First,,9,8,8.5',
+        '2,Second,,6,7,6.5',
+        ',Unranked,,5,5,5'
+    ]);
+});
+
+test('quotes CSV cells with commas, quotes or line breaks', () => {
+    const csv = resultsToCsv(run([evaluation('a', 'Say "hi", world', 1, [9, 8])]));
+    assert.ok(csv.includes('1,"Say ""hi"", world",,9,8,8.5'));
+});
+
+test('keeps CSV cells that look like formulas from running and leaves XLSX text as it is', async () => {
+    const formulas = ['=HYPERLINK("http://example.com")', '+1+1', '-2+3', '@SUM(A1:A2)'];
+    const results = run(formulas.map((name, index) => evaluation(`p${index}`, name, index + 1, [7, 7])));
+
+    const csvNames = resultsToCsv(results).trim().split('\n').slice(1).map(line => line.split(',')[1]);
+    assert.deepEqual(csvNames, [`"'=HYPERLINK(""http://example.com"")"`, "'+1+1", "'-2+3", "'@SUM(A1:A2)"]);
+
+    const parts = await unzip(await resultsToXlsx(results, new PriceTable().buildReport(results)));
+    const leaderboard = parts['xl/worksheets/sheet1.xml'];
+    // Inline strings are never evaluated, so they keep their text
+    assert.ok(leaderboard.includes('<t xml:space="preserve">=HYPERLINK(&quot;http://example.com&quot;)</t>'));
+    assert.ok(leaderboard.includes('<t xml:space="preserve">@SUM(A1:A2)</t>'));
+    assert.ok(!/<f>/.test(leaderboard));
+});
+
+test('builds a workbook with the leaderboard, one sheet per judge and the usage', async () => {
+    const results = run([evaluation('a', 'First', 1, [9, 8])]);
+    const parts = await unzip(await resultsToXlsx(results, new PriceTable().buildReport(results)));
+
+    assert.ok(parts['[Content_Types].xml']);
+    assert.deepEqual(Array.from(parts['xl/workbook.xml'].matchAll(/<sheet name="([^"]+)"/g), match => match[1]), ['Leaderboard', 'Judge One', 'Judge Two', 'Usage']);
+    assert.ok(parts['xl/worksheets/sheet1.xml'].includes('<c r="A2"><v>1</v></c>'));
+    assert.ok(parts['xl/worksheets/sheet2.xml'].includes('Solid work'));
+});
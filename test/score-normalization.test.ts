@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeScores, summarizeJudges } from '../score-normalization';
+import { JudgeResult, ProjectEvaluation } from '../judging-types';
+
+function result(judgeId: string, score: number | null): JudgeResult {
+    const entry: JudgeResult = { judgeId, judgeName: judgeId, summary: '', score, likes: [], dislikes: [] };
+    if (score === null) entry.failed = true;
+    return entry;
+}
+
+// A lenient judge and a harsh judge who agree on the order of three projects
+function cohort(): ProjectEvaluation[] {
+    return [[8, 2], [9, 3], [10, 4]].map(([lenient, harsh], index) => ({
+        projectId: `p${index + 1}`,
+        projectName: `Project ${index + 1}`,
+        judgeResults: [result('lenient', lenient), result('harsh', harsh)]
+    }));
+}
+
+function normalized(evaluations: ProjectEvaluation[], judgeId: string): Array<number | undefined> {
+    return evaluations.map(evaluation => evaluation.judgeResults.find(entry => entry.judgeId === judgeId)!.normalizedScore);
+}
+
+test('summarizes each judge against the cohort mean', () => {
+    const [lenient, harsh] = summarizeJudges(cohort());
+
+    assert.deepEqual(lenient, { judgeId: 'lenient', judgeName: 'lenient', count: 3, mean: 9, median: 9, stdDev: 0.82, min: 8, max: 10, offset: 3 });
+    assert.equal(harsh.offset, -3);
+});
+
+test('z-score normalization puts judges who agree on the order on the same scale', () => {
+    const evaluations = cohort();
+    normalizeScores(evaluations, 'z-score');
+
+    assert.deepEqual(normalized(evaluations, 'lenient'), [2.2, 6, 9.8]);
+    assert.deepEqual(normalized(evaluations, 'harsh'), [2.2, 6, 9.8]);
+    assert.equal(evaluations[0].judgeResults[0].score, 8, 'raw scores stay untouched');
+});
+
+test('rank normalization maps percentiles onto the distribution of all scores', () => {
+    const evaluations = cohort();
+    normalizeScores(evaluations, 'rank');
+
+    assert.deepEqual(normalized(evaluations, 'lenient'), [2, 6, 10]);
+    assert.deepEqual(normalized(evaluations, 'harsh'), [2, 6, 10]);
+});
+
+test('maps a judge who gave every project the same score to the cohort centre', () => {
+    const evaluations = cohort();
+    evaluations.forEach(evaluation => evaluation.judgeResults.push(result('flat', 7)));
+
+    normalizeScores(evaluations, 'z-score');
+    assert.ok(normalized(evaluations, 'flat').every(score => score === 6.3));
+
+    normalizeScores(evaluations, 'rank');
+    assert.ok(normalized(evaluations, 'flat').every(score => score === 7));
+});
+
+test('skips failed evaluations and clears normalized scores for "none"', () => {
+    const evaluations = cohort();
+    evaluations[0].judgeResults.push(result('flaky', null));
+    normalizeScores(evaluations, 'z-score');
+    assert.equal(evaluations[0].judgeResults[2].normalizedScore, undefined);
+    assert.equal(summarizeJudges(evaluations).length, 2);
+
+    normalizeScores(evaluations, 'none');
+    assert.ok(evaluations.every(evaluation => evaluation.judgeResults.every(entry => entry.normalizedScore === undefined)));
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TECHNOLOGY_SIGNATURES, detectTechnologies, validateTechnologySignatures } from '../technology-detection';
+import { ProjectFile } from '../judging-types';
+
+function file(path: string, content: string): ProjectFile {
+    return { name: path.split('/').pop()!, path, content, type: 'text/plain', size: content.length };
+}
+
+function detect(files: ProjectFile[]) {
+    return detectTechnologies(files, DEFAULT_TECHNOLOGY_SIGNATURES);
+}
+
+test('finds dependencies, imports and endpoints with file and line evidence', () => {
+    const detected = detect([
+        file('package.json', '{\n  "dependencies": {\n    "@anthropic-ai/sdk": "^0.30.0"\n  }\n}'),
+        file('src/pay.ts', "import Stripe from 'stripe';\nconst stripe = new Stripe(key);"),
+        file('src/db.ts', "const url = 'https://demo.supabase.co';")
+    ]);
+
+    assert.deepEqual(detected.map(entry => entry.technologyId), ['anthropic', 'stripe', 'supabase']);
+    assert.deepEqual(detected[0].evidence, [{ kind: 'dependency', path: 'package.json', line: 3, text: '"@anthropic-ai/sdk": "^0.30.0"' }]);
+    assert.deepEqual(detected[1].evidence, [{ kind: 'import', path: 'src/pay.ts', line: 1, text: "import Stripe from 'stripe';" }]);
+    assert.equal(detected[2].evidence[0].kind, 'endpoint');
+});
+
+test('reads Python requirements files but not other text files or lockfiles', () => {
+    const detected = detect([
+        file('requirements-dev.txt', 'openai==1.30.0\npymongo[srv]>=4'),
+        file('notes.txt', 'we tried stripe and twilio'),
+        file('README.md', 'Built with api.twilio.com'),
+        file('package-lock.json', '"node_modules/firebase": {')
+    ]);
+
+    assert.deepEqual(detected.map(entry => entry.technologyId), ['openai', 'mongodb']);
+});
+
+test('matches submodules but not packages that only share a prefix', () => {
+    const detected = detect([
+        file('app.py', 'from anthropic.types import Message\nimport openai_helpers\nimport firebase_admin.auth'),
+        file('main.go', 'import "github.com/stripe/stripe-go"')
+    ]);
+
+    assert.deepEqual(detected.map(entry => entry.technologyId), ['anthropic', 'firebase']);
+});
+
+test('counts every match but keeps a bounded list of evidence', () => {
+    const content = Array.from({ length: 15 }, () => "fetch('https://api.openai.com/v1/chat')").join('\n');
+    const [openai] = detect([file('src/client.js', content)]);
+
+    assert.equal(openai.evidenceCount, 15);
+    assert.equal(openai.evidence.length, 10);
+});
+
+test('validates signatures and derives missing IDs from names', () => {
+    const { signatures, errors } = validateTechnologySignatures([
+        { name: ' Vector DB ', packages: [' pinecone '] },
+        { name: 'Vector DB', imports: ['weaviate'] },
+        { name: 'Empty' },
+        { name: 'Broken', endpoints: 'api.example.com' },
+        {}
+    ]);
+
+    assert.deepEqual(signatures, [{ id: 'vector-db', name: 'Vector DB', packages: ['pinecone'] }]);
+    assert.deepEqual(errors, [
+        'signature "Vector DB" is defined more than once',
+        'signature "Empty" needs at least one package, import or endpoint',
+        'signature "Broken": packages, imports and endpoints must be lists of text',
+        'every signature needs a name'
+    ]);
+    assert.deepEqual(validateTechnologySignatures({}).errors, ['signatures must be an array']);
+});
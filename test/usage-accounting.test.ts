@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JudgingRun } from '../judging-types';
+import { emptyUsage, PriceTable, usageReportToCsv } from '../usage-accounting';
+
+function run(projectName: string, judgeName: string): JudgingRun {
+    return {
+        id: 'run1',
+        status: 'completed',
+        projectIds: ['p1'],
+        judges: [],
+        seed: 1,
+        evaluations: [{
+            projectId: 'p1',
+            projectName,
+            judgeResults: [{ judgeId: 'j1', judgeName, summary: '', score: 7, likes: [], dislikes: [], usage: { ...emptyUsage(), calls: 1, inputTokens: 100, outputTokens: 20 } }]
+        }],
+        events: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+}
+
+test('writes one CSV row per scope with the usage totals', () => {
+    const csv = usageReportToCsv(new PriceTable().buildReport(run('Demo', 'Judge One')));
+
+    assert.deepEqual(csv.trim().split('\n'), [
+        'scope,projectId,projectName,judgeId,judgeName,calls,cachedCalls,unpricedCalls,inputTokens,outputTokens,costUsd',
+        'run,,,,,0,0,0,0,0,0.000000',
+        'master-judge,,,,,0,0,0,0,0,0.000000',
+        'project,p1,Demo,,,0,0,0,0,0,0.000000',
+        'judge,,,j1,Judge One,1,0,0,100,20,0.000000',
+        'project-judge,p1,Demo,j1,Judge One,1,0,0,100,20,0.000000'
+    ]);
+});
+
+test('keeps project and judge names from running as formulas and quotes line breaks', () => {
+    const csv = usageReportToCsv(new PriceTable().buildReport(run('=HYPERLINK("http://example.com")', '@Judge\rOne')));
+    const row = csv.trim().split('\n').pop()!;
+
+    assert.equal(row, `project-judge,p1,"'=HYPERLINK(""http://example.com"")",j1,"'@Judge\rOne",1,0,0,100,20,0.000000`);
+});
@@ -0,0 +1,49 @@
+import { EventTrack, Judge, ProjectEvaluation } from './judging-types';
+import { getAverageScore } from './ranking-reconciliation';
+
+export interface TrackGroup {
+    track: EventTrack;
+    evaluations: ProjectEvaluation[];
+}
+
+/** Judges without tracks evaluate every project; scoped judges only the projects in their tracks. */
+export function judgesForTrack(judges: Judge[], trackId: string | undefined): Judge[] {
+    return judges.filter(judge => !judge.tracks || judge.tracks.length === 0 || (!!trackId && judge.tracks.includes(trackId)));
+}
+
+/** The evaluations of every track that has projects, in the event's track order. */
+export function groupByTrack(evaluations: ProjectEvaluation[], tracks: EventTrack[]): TrackGroup[] {
+    return tracks
+        .map(track => ({ track, evaluations: evaluations.filter(evaluation => evaluation.track === track.id) }))
+        .filter(group => group.evaluations.length > 0);
+}
+
+/**
+ * Copies the ranks of a track's separately ranked evaluations onto the
+ * overall evaluations as their track ranks.
+ */
+export function applyTrackRanking(evaluations: ProjectEvaluation[], trackRanking: ProjectEvaluation[]): void {
+    for (const ranked of trackRanking) {
+        const evaluation = evaluations.find(candidate => candidate.projectId === ranked.projectId);
+        if (!evaluation) continue;
+
+        evaluation.trackRank = ranked.finalRank;
+        evaluation.trackRankReasoning = ranked.rankReasoning;
+    }
+}
+
+/**
+ * Ranks each track by the overall order, for strategies whose ratings are
+ * already comparable across all projects. Unranked projects fall back to
+ * their average score.
+ */
+export function rankTracksByOverall(evaluations: ProjectEvaluation[], tracks: EventTrack[]): void {
+    for (const { evaluations: trackEvaluations } of groupByTrack(evaluations, tracks)) {
+        const ordered = [...trackEvaluations].sort((a, b) =>
+            (a.finalRank ?? Infinity) - (b.finalRank ?? Infinity) || getAverageScore(b) - getAverageScore(a));
+        ordered.forEach((evaluation, index) => {
+            evaluation.trackRank = index + 1;
+            evaluation.trackRankReasoning = undefined;
+        });
+    }
+}
@@ -0,0 +1,185 @@
+import { csvCell } from './csv';
+import { JudgingRun, UsageTotals } from './judging-types';
+import { round } from './math-utils';
+
+// Costs are kept to a millionth of a dollar
+const COST_DIGITS = 6;
+
+export interface ModelPrice {
+    inputPerMillion: number; // USD per million input tokens
+    outputPerMillion: number; // USD per million output tokens
+}
+
+export interface UsageReportRow {
+    scope: 'run' | 'master-judge' | 'project' | 'chunk-notes' | 'judge' | 'project-judge';
+    projectId?: string;
+    projectName?: string;
+    judgeId?: string;
+    judgeName?: string;
+    usage: UsageTotals;
+}
+
+export interface UsageReport {
+    runId: string;
+    currency: 'USD';
+    prices: Record<string, ModelPrice>;
+    rows: UsageReportRow[];
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+    'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 }
+};
+
+export function emptyUsage(): UsageTotals {
+    return { calls: 0, cachedCalls: 0, unpricedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(target: UsageTotals, source: UsageTotals | undefined): UsageTotals {
+    if (!source) return target;
+
+    target.calls += source.calls;
+    target.cachedCalls += source.cachedCalls;
+    target.unpricedCalls += source.unpricedCalls;
+    target.inputTokens += source.inputTokens;
+    target.outputTokens += source.outputTokens;
+    target.costUsd = round(target.costUsd + source.costUsd, COST_DIGITS);
+    return target;
+}
+
+/**
+ * Per-model token prices used to estimate spend. Overrides come from the
+ * CLAUDE_PRICES environment variable as JSON, e.g.
+ * {"claude-3-5-haiku-20241022": {"inputPerMillion": 1, "outputPerMillion": 5}}.
+ */
+export class PriceTable {
+    private readonly prices: Record<string, ModelPrice>;
+
+    constructor(overrides: Record<string, ModelPrice> = {}) {
+        this.prices = { ...DEFAULT_PRICES, ...overrides };
+    }
+
+    static fromEnv(value: string | undefined): PriceTable {
+        if (!value || !value.trim()) {
+            return new PriceTable();
+        }
+
+        const parsed = JSON.parse(value);
+        const overrides: Record<string, ModelPrice> = {};
+        for (const [model, price] of Object.entries<any>(parsed)) {
+            if (!price || typeof price.inputPerMillion !== 'number' || typeof price.outputPerMillion !== 'number') {
+                throw new Error(`CLAUDE_PRICES entry for ${model} needs numeric inputPerMillion and outputPerMillion`);
+            }
+            overrides[model] = { inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion };
+        }
+
+        return new PriceTable(overrides);
+    }
+
+    list(): Record<string, ModelPrice> {
+        return { ...this.prices };
+    }
+
+    /**
+     * Adds one Claude call to the totals. Cache hits are counted but cost
+     * nothing, since no tokens were billed for them.
+     */
+    record(totals: UsageTotals, call: { model: string; usage: any; cacheHit: boolean }): void {
+        totals.calls++;
+
+        if (call.cacheHit) {
+            totals.cachedCalls++;
+            return;
+        }
+
+        const inputTokens = call.usage?.input_tokens || 0;
+        const outputTokens = call.usage?.output_tokens || 0;
+        totals.inputTokens += inputTokens;
+        totals.outputTokens += outputTokens;
+
+        const price = this.prices[call.model];
+        if (!price) {
+            totals.unpricedCalls++;
+            return;
+        }
+
+        totals.costUsd = round(totals.costUsd +
+            inputTokens * price.inputPerMillion / 1000000 +
+            outputTokens * price.outputPerMillion / 1000000, COST_DIGITS);
+    }
+
+    /**
+     * Breaks a run's usage down by run, master judge, project, chunk notes
+     * (map-reduce mode), judge and project × judge.
+     */
+    buildReport(run: JudgingRun): UsageReport {
+        const rows: UsageReportRow[] = [
+            { scope: 'run', usage: run.usage || emptyUsage() },
+            { scope: 'master-judge', usage: run.masterJudgeUsage || emptyUsage() }
+        ];
+
+        const judgeTotals = new Map<string, UsageReportRow>();
+        const projectJudgeRows: UsageReportRow[] = [];
+
+        for (const evaluation of run.evaluations) {
+            rows.push({
+                scope: 'project',
+                projectId: evaluation.projectId,
+                projectName: evaluation.projectName,
+                usage: evaluation.usage || emptyUsage()
+            });
+
+            if (evaluation.chunkNotes) {
+                rows.push({
+                    scope: 'chunk-notes',
+                    projectId: evaluation.projectId,
+                    projectName: evaluation.projectName,
+                    usage: evaluation.chunkNotes.usage
+                });
+            }
+
+            for (const result of evaluation.judgeResults) {
+                projectJudgeRows.push({
+                    scope: 'project-judge',
+                    projectId: evaluation.projectId,
+                    projectName: evaluation.projectName,
+                    judgeId: result.judgeId,
+                    judgeName: result.judgeName,
+                    usage: result.usage || emptyUsage()
+                });
+
+                let judgeRow = judgeTotals.get(result.judgeId);
+                if (!judgeRow) {
+                    judgeRow = { scope: 'judge', judgeId: result.judgeId, judgeName: result.judgeName, usage: emptyUsage() };
+                    judgeTotals.set(result.judgeId, judgeRow);
+                }
+                addUsage(judgeRow.usage, result.usage);
+            }
+        }
+
+        rows.push(...judgeTotals.values(), ...projectJudgeRows);
+        return { runId: run.id, currency: 'USD', prices: this.list(), rows };
+    }
+}
+
+export function usageReportToCsv(report: UsageReport): string {
+    const header = ['scope', 'projectId', 'projectName', 'judgeId', 'judgeName', 'calls', 'cachedCalls', 'unpricedCalls', 'inputTokens', 'outputTokens', 'costUsd'];
+    const lines = report.rows.map(row => [
+        row.scope,
+        row.projectId,
+        row.projectName,
+        row.judgeId,
+        row.judgeName,
+        row.usage.calls,
+        row.usage.cachedCalls,
+        row.usage.unpricedCalls,
+        row.usage.inputTokens,
+        row.usage.outputTokens,
+        row.usage.costUsd.toFixed(6)
+    ].map(csvCell).join(','));
+
+    return [header.join(','), ...lines].join('\n') + '\n';
+}